@@ -0,0 +1,288 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { Plugin } from 'vite'
+
+// Dev-server API that gives the app access to artifact files on disk:
+//
+//   GET    /api/files[?content=true]   list files (optionally with their content)
+//   GET    /api/files/content?path=…   read a file
+//   PUT    /api/files/content?path=…   write a file (request body is the content)
+//   DELETE /api/files/content?path=…   delete a file
+//   GET    /api/files/folders          read the folder details (.folders.json)
+//   PUT    /api/files/folders          write the folder details (request body is JSON)
+//   GET    /api/files/events           server-sent events for external changes
+//   GET    /api/tsx-files?directory=…  list .tsx files of a project directory
+//
+// Paths are relative to the artifacts directory and cannot escape it.
+
+export interface ArtifactFileApiOptions {
+  // Directory holding the artifact files, relative to the project root.
+  // When omitted, the file API is not served and the app stores artifacts in
+  // the browser as usual.
+  directory?: string
+  extensions?: string[]
+}
+
+interface FileEntry {
+  path: string
+  name: string
+  lastModified: string
+  size: number
+  content?: string
+}
+
+const API_PREFIX = '/api/files'
+const DEFAULT_EXTENSIONS = ['tsx', 'jsx', 'svg', 'mmd', 'html', 'md']
+// Descriptions and colors of folders, and folders without files, which
+// directories alone cannot represent. Hidden, so it is never listed as an artifact.
+const FOLDERS_FILE = '.folders.json'
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, data: unknown) => {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(data))
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')))
+    req.on('error', reject)
+  })
+
+// Resolve a path inside `root`, rejecting anything that points outside of it
+const resolveInside = (root: string, relativePath: string | null) => {
+  if (!relativePath) {
+    throw new HttpError(400, 'Missing path')
+  }
+  const absolutePath = path.resolve(root, relativePath)
+  if (absolutePath !== root && !absolutePath.startsWith(root + path.sep)) {
+    throw new HttpError(400, `Path is outside of ${root}`)
+  }
+  return absolutePath
+}
+
+const toApiPath = (root: string, absolutePath: string) =>
+  path.relative(root, absolutePath).split(path.sep).join('/')
+
+async function listFiles(root: string, extensions: string[], withContent = false): Promise<FileEntry[]> {
+  const files: FileEntry[] = []
+
+  const visit = async (directory: string) => {
+    let entries
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true })
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw err
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+      const absolutePath = path.join(directory, entry.name)
+
+      if (entry.isDirectory()) {
+        await visit(absolutePath)
+      } else if (extensions.includes(path.extname(entry.name).slice(1))) {
+        const stats = await fs.stat(absolutePath)
+        files.push({
+          path: toApiPath(root, absolutePath),
+          name: entry.name,
+          lastModified: stats.mtime.toISOString(),
+          size: stats.size,
+          ...(withContent ? { content: await fs.readFile(absolutePath, 'utf-8') } : {}),
+        })
+      }
+    }
+  }
+
+  await visit(root)
+  return files.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+// Remove directories left empty by a delete, up to (not including) the root
+async function pruneEmptyDirectories(root: string, directory: string) {
+  while (directory !== root && directory.startsWith(root + path.sep)) {
+    const entries = await fs.readdir(directory).catch(() => null)
+    if (!entries || entries.length > 0) return
+    await fs.rmdir(directory)
+    directory = path.dirname(directory)
+  }
+}
+
+export function artifactFileApi(options: ArtifactFileApiOptions = {}): Plugin {
+  const extensions = options.extensions || DEFAULT_EXTENSIONS
+  let projectRoot = process.cwd()
+  let artifactsRoot: string | null = null
+
+  return {
+    name: 'artifact-file-api',
+    apply: 'serve',
+
+    config() {
+      // Tells the app to sync artifacts with the directory
+      return {
+        define: {
+          'import.meta.env.VITE_ARTIFACTS_DIR': JSON.stringify(options.directory || ''),
+        },
+      }
+    },
+
+    configResolved(config) {
+      projectRoot = config.root
+      artifactsRoot = options.directory ? path.resolve(config.root, options.directory) : null
+    },
+
+    configureServer(server) {
+      // Used by the file navigator in src/artifacts
+      server.middlewares.use('/api/tsx-files', async (req, res) => {
+        try {
+          const url = new URL(req.url || '/', 'http://localhost')
+          const directory = resolveInside(projectRoot, url.searchParams.get('directory') || '.')
+          const files = await listFiles(directory, ['tsx'])
+          sendJson(res, 200, {
+            files: files.map(file => ({
+              name: file.name,
+              path: './' + toApiPath(projectRoot, path.join(directory, file.path)),
+              lastModified: file.lastModified,
+            })),
+          })
+        } catch (err) {
+          sendJson(res, err instanceof HttpError ? err.status : 500, { error: (err as Error).message })
+        }
+      })
+
+      if (!artifactsRoot) return
+      const root = artifactsRoot
+
+      // Content written through the API, so that the watcher does not report
+      // the app's own changes back to it
+      const writtenContent = new Map<string, string>()
+      const deletedPaths = new Set<string>()
+      const clients = new Set<ServerResponse>()
+
+      const broadcast = (event: { type: 'add' | 'change' | 'unlink'; path: string }) => {
+        const message = `data: ${JSON.stringify(event)}\n\n`
+        clients.forEach(client => client.write(message))
+      }
+
+      const onFileEvent = (type: 'add' | 'change' | 'unlink') => async (absolutePath: string) => {
+        if (!absolutePath.startsWith(root + path.sep)) return
+        if (!extensions.includes(path.extname(absolutePath).slice(1))) return
+
+        if (type === 'unlink') {
+          if (deletedPaths.delete(absolutePath)) return
+        } else if (writtenContent.has(absolutePath)) {
+          const content = await fs.readFile(absolutePath, 'utf-8').catch(() => null)
+          if (content === writtenContent.get(absolutePath)) return
+        }
+
+        writtenContent.delete(absolutePath)
+        broadcast({ type, path: toApiPath(root, absolutePath) })
+      }
+
+      server.watcher.add(root)
+      server.watcher.on('add', onFileEvent('add'))
+      server.watcher.on('change', onFileEvent('change'))
+      server.watcher.on('unlink', onFileEvent('unlink'))
+
+      server.middlewares.use(API_PREFIX, async (req, res) => {
+        try {
+          const url = new URL(req.url || '/', 'http://localhost')
+
+          if (url.pathname === '/' && req.method === 'GET') {
+            const files = await listFiles(root, extensions, url.searchParams.get('content') === 'true')
+            sendJson(res, 200, { directory: options.directory, files })
+            return
+          }
+
+          if (url.pathname === '/events' && req.method === 'GET') {
+            res.writeHead(200, {
+              'Content-Type': 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              Connection: 'keep-alive',
+            })
+            res.write(': connected\n\n')
+            clients.add(res)
+            req.on('close', () => clients.delete(res))
+            return
+          }
+
+          if (url.pathname === '/folders') {
+            const foldersPath = path.join(root, FOLDERS_FILE)
+            if (req.method === 'GET') {
+              const content = await fs.readFile(foldersPath, 'utf-8').catch(() => '[]')
+              sendJson(res, 200, { folders: JSON.parse(content) })
+            } else if (req.method === 'PUT') {
+              const content = await readBody(req)
+              try {
+                JSON.parse(content)
+              } catch {
+                throw new HttpError(400, 'Folder details must be JSON')
+              }
+              await fs.mkdir(root, { recursive: true })
+              await fs.writeFile(foldersPath, content, 'utf-8')
+              res.statusCode = 204
+              res.end()
+            } else {
+              throw new HttpError(405, `Method ${req.method} not allowed`)
+            }
+            return
+          }
+
+          if (url.pathname !== '/content') {
+            throw new HttpError(404, `Unknown endpoint ${url.pathname}`)
+          }
+
+          const filePath = resolveInside(root, url.searchParams.get('path'))
+          if (!extensions.includes(path.extname(filePath).slice(1))) {
+            throw new HttpError(400, `Only ${extensions.map(ext => '.' + ext).join(', ')} files are supported`)
+          }
+
+          switch (req.method) {
+            case 'GET': {
+              const content = await fs.readFile(filePath, 'utf-8').catch(() => {
+                throw new HttpError(404, 'File not found')
+              })
+              const stats = await fs.stat(filePath)
+              sendJson(res, 200, { path: toApiPath(root, filePath), content, lastModified: stats.mtime.toISOString() })
+              return
+            }
+            case 'PUT': {
+              const content = await readBody(req)
+              await fs.mkdir(path.dirname(filePath), { recursive: true })
+              writtenContent.set(filePath, content)
+              await fs.writeFile(filePath, content, 'utf-8')
+              const stats = await fs.stat(filePath)
+              sendJson(res, 200, { path: toApiPath(root, filePath), lastModified: stats.mtime.toISOString(), size: stats.size })
+              return
+            }
+            case 'DELETE': {
+              if (await fs.stat(filePath).catch(() => null)) {
+                deletedPaths.add(filePath)
+              }
+              writtenContent.delete(filePath)
+              await fs.rm(filePath, { force: true })
+              await pruneEmptyDirectories(root, path.dirname(filePath))
+              res.statusCode = 204
+              res.end()
+              return
+            }
+            default:
+              throw new HttpError(405, `Method ${req.method} not allowed`)
+          }
+        } catch (err) {
+          sendJson(res, err instanceof HttpError ? err.status : 500, { error: (err as Error).message })
+        }
+      })
+    },
+  }
+}
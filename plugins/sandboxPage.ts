@@ -0,0 +1,106 @@
+import fs from 'fs'
+import path from 'path'
+import { build, type Alias, type Plugin, type Rollup } from 'vite'
+
+// Serves the artifact sandbox page in development with its script and styles
+// bundled into the page. The sandbox iframe has an opaque ("null") origin, so
+// module scripts it loaded from the dev server would be cross-origin requests;
+// allowing those would let any page read the dev server's sources. Production
+// builds emit sandbox.html as a regular page of the app.
+
+const PAGE = 'sandbox.html'
+const MODULE_SCRIPT = /<script type="module" src="\/([^"]+)"><\/script>/
+
+interface SandboxBundle {
+  script: string
+  styles: string
+  // Source files in the bundle, to rebuild it when one changes
+  files: Set<string>
+}
+
+async function buildSandbox(root: string, alias: Alias[], entry: string): Promise<SandboxBundle> {
+  const result = await build({
+    configFile: false,
+    root,
+    logLevel: 'error',
+    publicDir: false,
+    resolve: { alias },
+    esbuild: { jsx: 'automatic' },
+    define: { 'process.env.NODE_ENV': JSON.stringify('development') },
+    build: {
+      write: false,
+      lib: { entry, name: 'ArtifactSandbox', formats: ['iife'], fileName: () => 'sandbox.js' },
+      rollupOptions: {
+        // "use client" directives of UI libraries mean nothing here
+        onwarn(warning, warn) {
+          if (warning.code !== 'MODULE_LEVEL_DIRECTIVE') warn(warning)
+        },
+      },
+    },
+  })
+  const outputs = (Array.isArray(result) ? result : [result]) as Rollup.RollupOutput[]
+  const items = outputs[0].output
+  const chunk = items.find((item): item is Rollup.OutputChunk => item.type === 'chunk')
+  if (!chunk) {
+    throw new Error('The sandbox build produced no script')
+  }
+  const styles = items
+    .filter((item): item is Rollup.OutputAsset => item.type === 'asset' && item.fileName.endsWith('.css'))
+    .map(item => String(item.source))
+    .join('\n')
+  return { script: chunk.code, styles, files: new Set(chunk.moduleIds) }
+}
+
+// Inline content must not close its own element early
+const escapeInline = (code: string, tag: string) => code.replace(new RegExp(`</${tag}`, 'gi'), `<\\/${tag}`)
+
+export function sandboxPage(): Plugin {
+  let root = process.cwd()
+  let alias: Alias[] = []
+
+  return {
+    name: 'sandbox-page',
+    apply: 'serve',
+
+    configResolved(config) {
+      root = config.root
+      alias = config.resolve.alias
+    },
+
+    configureServer(server) {
+      // Built on first request; rebuilt after changes to its sources or styles
+      let bundle: Promise<SandboxBundle> | null = null
+      server.watcher.on('change', file => {
+        if (!bundle) return
+        bundle.then(built => {
+          if (built.files.has(file) || file.endsWith('.css')) bundle = null
+        }, () => { bundle = null })
+      })
+
+      server.middlewares.use(async (req, res, next) => {
+        if (req.url?.split('?')[0] !== `/${PAGE}`) return next()
+
+        try {
+          const html = fs.readFileSync(path.join(root, PAGE), 'utf8')
+          const entry = html.match(MODULE_SCRIPT)?.[1]
+          if (!entry) {
+            throw new Error(`${PAGE} has no module script`)
+          }
+          if (!bundle) {
+            bundle = buildSandbox(root, alias, path.join(root, entry))
+          }
+          const { script, styles } = await bundle
+          const page = html
+            .replace('</head>', () => `  <style>${escapeInline(styles, 'style')}</style>\n  </head>`)
+            .replace(MODULE_SCRIPT, () => `<script>${escapeInline(script, 'script')}</script>`)
+          res.setHeader('Content-Type', 'text/html')
+          res.end(page)
+        } catch (err) {
+          bundle = null
+          res.statusCode = 500
+          res.end((err as Error).message)
+        }
+      })
+    },
+  }
+}
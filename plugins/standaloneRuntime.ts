@@ -0,0 +1,110 @@
+import fs from 'fs'
+import path from 'path'
+import { build, type Alias, type Plugin, type Rollup } from 'vite'
+
+// Builds the runtime of standalone HTML exports. Each file in src/standalone
+// is one pack, built on its own into a single script that the export inlines:
+//
+//   GET /standalone/<pack>.js   (served by the dev server, emitted into dist)
+//
+// The core pack bundles React; the others read it from globals, so that an
+// export only carries the libraries its artifact uses.
+
+const SOURCE_DIR = 'src/standalone'
+const OUTPUT_DIR = 'standalone'
+const CORE_PACK = 'core'
+
+// Modules the core pack provides to the other packs, by the global it sets
+const SHARED_GLOBALS: Record<string, string> = {
+  react: 'React',
+  'react-dom': 'ReactDOM',
+  'react/jsx-runtime': 'ReactJSXRuntime',
+}
+
+const listPacks = (root: string): Map<string, string> => {
+  const directory = path.join(root, SOURCE_DIR)
+  return new Map(
+    fs.readdirSync(directory)
+      .filter(file => /\.tsx?$/.test(file))
+      .map(file => [file.replace(/\.tsx?$/, ''), path.join(directory, file)])
+  )
+}
+
+async function buildPack(root: string, alias: Alias[], name: string, entry: string): Promise<string> {
+  const isCore = name === CORE_PACK
+  const result = await build({
+    configFile: false,
+    root,
+    logLevel: 'error',
+    publicDir: false,
+    resolve: { alias },
+    esbuild: { jsx: 'automatic' },
+    // Library builds leave process.env alone, but React reads it
+    define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+    build: {
+      write: false,
+      lib: { entry, name: `ArtifactRuntime_${name}`, formats: ['iife'], fileName: () => `${name}.js` },
+      rollupOptions: isCore ? {} : {
+        external: Object.keys(SHARED_GLOBALS),
+        output: { globals: SHARED_GLOBALS },
+      },
+    },
+  })
+  const outputs = (Array.isArray(result) ? result : [result]) as Rollup.RollupOutput[]
+  const chunk = outputs[0].output.find(item => item.type === 'chunk')
+  if (!chunk) {
+    throw new Error(`Runtime pack "${name}" produced no script`)
+  }
+  return chunk.code
+}
+
+export function standaloneRuntime(): Plugin {
+  let root = process.cwd()
+  let alias: Alias[] = []
+
+  return {
+    name: 'standalone-runtime',
+
+    configResolved(config) {
+      root = config.root
+      alias = config.resolve.alias
+    },
+
+    configureServer(server) {
+      // Built on first request; rebuilt after source changes
+      const cache = new Map<string, Promise<string>>()
+      server.watcher.on('change', file => {
+        if (file.startsWith(path.join(root, 'src'))) cache.clear()
+      })
+
+      server.middlewares.use(`/${OUTPUT_DIR}`, async (req, res, next) => {
+        const name = req.url?.match(/^\/([\w-]+)\.js(?:\?|$)/)?.[1]
+        const entry = name && listPacks(root).get(name)
+        if (!name || !entry) return next()
+
+        try {
+          if (!cache.has(name)) {
+            cache.set(name, buildPack(root, alias, name, entry))
+          }
+          const code = await cache.get(name)!
+          res.setHeader('Content-Type', 'text/javascript')
+          res.end(code)
+        } catch (err) {
+          cache.delete(name)
+          res.statusCode = 500
+          res.end((err as Error).message)
+        }
+      })
+    },
+
+    async generateBundle() {
+      for (const [name, entry] of Array.from(listPacks(root))) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${OUTPUT_DIR}/${name}.js`,
+          source: await buildPack(root, alias, name, entry),
+        })
+      }
+    },
+  }
+}
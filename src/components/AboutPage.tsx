@@ -47,6 +47,8 @@ export function AboutPage() {
             <li>React components (with full reactivity)</li>
             <li>SVG images</li>
             <li>Mermaid diagrams</li>
+            <li>HTML pages</li>
+            <li>Markdown documents</li>
           </ul>
         </section>
 
@@ -61,7 +63,12 @@ export function AboutPage() {
             <li>Advanced filtering, searching, and sorting</li>
             <li>Automatic type detection based on content</li>
             <li>Complete artifact management (create, edit, delete)</li>
-            <li>Import/export functionality for sharing</li>
+            <li>Trash with restore, and undo/redo (Ctrl+Z) for deletes, moves and imports</li>
+            <li>Share links that carry the artifact in the URL, with no server needed</li>
+            <li>Export any artifact as a standalone HTML page that works offline</li>
+            <li>Export a folder, a tag or the whole gallery as a static website</li>
+            <li>Import/export as JSON, or as a zip with one source file per artifact</li>
+            <li>Import artifacts and code blocks from Claude conversation exports</li>
           </ul>
         </section>
 
@@ -72,6 +79,7 @@ export function AboutPage() {
           <ul className="list-disc ml-6 space-y-1 text-gray-700">
             <li>Use the folder breadcrumb navigation to move between folders</li>
             <li>Click on folder cards to navigate into subfolders</li>
+            <li>Use the folder tree in the sidebar to create, rename, move and delete folders</li>
             <li>Use the Home button to return to the root directory</li>
             <li>Apply filters to narrow down artifacts by type, tag, or folder</li>
             <li>Use the search bar to find artifacts by title, description, or tags</li>
@@ -109,7 +117,7 @@ export function AboutPage() {
         <section>
           <h2 className="text-xl font-semibold mb-3">How It Works</h2>
           <p className="text-gray-700">
-            Artifacts Gallery uses browser localStorage to store your artifacts, which means:
+            Artifacts Gallery stores your artifacts in the browser's IndexedDB (or localStorage where IndexedDB is unavailable), which means:
           </p>
           <ul className="list-disc ml-6 mt-2 space-y-1 text-gray-700">
             <li>Your data persists between sessions without needing a server</li>
@@ -124,6 +132,8 @@ export function AboutPage() {
             <li>React components are transpiled and executed directly in the browser</li>
             <li>SVG images are sanitized and rendered safely</li>
             <li>Mermaid diagrams are processed by the Mermaid.js library</li>
+            <li>HTML pages run in a sandboxed iframe without access to the gallery</li>
+            <li>Markdown is rendered with marked and sanitized; mermaid code blocks become diagrams</li>
           </ul>
         </section>
 
@@ -132,7 +142,7 @@ export function AboutPage() {
           
           <h3 className="text-lg font-medium mt-3 mb-1">Automatic Type Detection</h3>
           <p className="text-gray-700">
-            The application can automatically detect the correct type (React, SVG, or Mermaid) based on your code content.
+            The application can automatically detect the correct type (React, SVG, Mermaid, HTML, or Markdown) based on your code content.
             Toggle this feature on/off in the artifact editor. Color indicators show the detected type,
             and you'll receive clear error messages if the type is mismatched.
           </p>
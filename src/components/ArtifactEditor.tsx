@@ -1,16 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useArtifactStore } from '../lib/store';
-import { Folder, FolderPlus, ChevronDown } from 'lucide-react';
+import { useArtifactStore, type Artifact } from '../lib/store';
+import { Folder, FolderPlus, ChevronDown, Eye, EyeOff } from 'lucide-react';
+import { ArtifactHistory } from './ArtifactHistory';
+import { ArtifactPreview } from './ArtifactPreview';
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from './ui/resizable';
+import { CodeEditor } from './CodeEditor';
+import { findCodeDiagnostics, type CodeDiagnostic } from '../lib/codeDiagnostics';
+import { detectArtifactTypes, DETECTION_THRESHOLD, type ArtifactType } from '../lib/detectType';
+
+const typeLabels: Record<ArtifactType, string> = {
+  react: 'React',
+  svg: 'SVG',
+  mermaid: 'Mermaid',
+  html: 'HTML',
+  markdown: 'Markdown',
+};
 
 export function ArtifactEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { getArtifact, saveArtifact, createArtifact, getAllFolders } = useArtifactStore();
+  const { getArtifact, saveArtifact, createArtifact, loadArtifacts, getAllFolders, restoreRevision } = useArtifactStore();
   
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [type, setType] = useState<'react' | 'svg' | 'mermaid'>('react');
+  const [type, setType] = useState<ArtifactType>('react');
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
   const [folder, setFolder] = useState('');
@@ -24,12 +38,24 @@ export function ArtifactEditor() {
   const [loading, setLoading] = useState(id ? true : false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
+  // Version history
+  const [revisionNote, setRevisionNote] = useState('');
+  const [savedArtifact, setSavedArtifact] = useState<Artifact | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Live preview next to the code
+  const [showPreview, setShowPreview] = useState(true);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  // Syntax errors marked in the code editor
+  const [diagnostics, setDiagnostics] = useState<CodeDiagnostic[]>([]);
 
   const isEditing = !!id;
 
   // Load existing folders
   useEffect(() => {
     const loadFolders = async () => {
+      // Make sure the stored artifacts are available before reading their folders
+      await loadArtifacts();
       const folders = getAllFolders();
       
       // Sort folders by path depth, then alphabetically
@@ -44,7 +70,7 @@ export function ArtifactEditor() {
     };
     
     loadFolders();
-  }, [getAllFolders]);
+  }, [loadArtifacts, getAllFolders]);
 
   // Load artifact for editing
   useEffect(() => {
@@ -53,6 +79,7 @@ export function ArtifactEditor() {
         try {
           const artifact = await getArtifact(id);
           if (artifact) {
+            setSavedArtifact(artifact);
             setTitle(artifact.title || '');
             setDescription(artifact.description || '');
             setType(artifact.type);
@@ -85,7 +112,7 @@ export function ArtifactEditor() {
     };
 
     loadArtifact();
-  }, [id, getArtifact]);
+  }, [id, getArtifact, reloadKey]);
 
   // Handle folder changes
   const handleFolderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -115,69 +142,46 @@ export function ArtifactEditor() {
     }
   }, [folderMode, isSubfolder, parentFolder, newFolder]);
   
-  // Detect artifact type from code content
+  // Candidate types for the code, most likely first
+  const detectedTypes = useMemo(() => detectArtifactTypes(code), [code]);
+
+  // Switch to the detected type when it is confident enough
   useEffect(() => {
-    if (!autodetectType || !code.trim()) return;
+    if (!autodetectType) return;
     
-    // Function to detect type based on code content
-    const detectType = (codeContent: string) => {
-      const trimmedCode = codeContent.trim();
-      
-      // Check for SVG - more comprehensive detection
-      if (trimmedCode.includes('<svg') || 
-          trimmedCode.match(/<svg\s+[^>]*>/i) ||
-          trimmedCode.includes('<!--') && // HTML comments often indicate SVG
-          (trimmedCode.includes('<rect') || 
-           trimmedCode.includes('<circle') || 
-           trimmedCode.includes('<path') || 
-           trimmedCode.includes('<g') || 
-           trimmedCode.includes('<polygon'))) {
-        return 'svg' as const;
-      }
-      
-      // Check for Mermaid - common mermaid diagram types
-      const mermaidPatterns = [
-        /^graph\s+[A-Za-z0-9]/i,
-        /^flowchart\s+[A-Za-z0-9]/i,
-        /^sequenceDiagram/i,
-        /^classDiagram/i,
-        /^stateDiagram/i,
-        /^stateDiagram-v2/i,
-        /^erDiagram/i,
-        /^journey/i,
-        /^gantt/i,
-        /^pie/i,
-        /^pie\s+title/i,
-        /^mindmap/i
-      ];
-      
-      if (mermaidPatterns.some(pattern => pattern.test(trimmedCode))) {
-        return 'mermaid' as const;
-      }
-      
-      // Check for React-like syntax
-      // Don't detect as React if it contains HTML comments
-      if (!trimmedCode.includes('<!--') && (
-          trimmedCode.includes('import React') || 
-          trimmedCode.includes('function') && trimmedCode.includes('return') ||
-          trimmedCode.includes('class') && trimmedCode.includes('extends') ||
-          trimmedCode.includes('useState') || 
-          trimmedCode.includes('useEffect') ||
-          trimmedCode.includes('export default'))) {
-        return 'react' as const;
-      }
-      
-      // Don't change type if we can't confidently detect it
-      return null;
-    };
-    
-    const detectedType = detectType(code);
-    if (detectedType && detectedType !== type) {
-      setType(detectedType);
+    const [best] = detectedTypes;
+    if (best && best.confidence >= DETECTION_THRESHOLD && best.type !== type) {
+      setType(best.type);
     }
-  }, [code, type, autodetectType]);
+  }, [detectedTypes, type, autodetectType]);
+
+  // Check the code for syntax errors once typing pauses
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findCodeDiagnostics(code, type)
+        .then(result => !cancelled && setDiagnostics(result))
+        .catch(err => console.error('Error checking code:', err));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, type]);
 
-  const handleSave = async () => {
+  // Whether the form differs from the last saved version
+  const hasUnsavedChanges = useMemo(() => {
+    if (!savedArtifact) return !!(title || description || code);
+    return title !== savedArtifact.title
+      || description !== (savedArtifact.description || '')
+      || type !== savedArtifact.type
+      || code !== savedArtifact.code
+      || (folder.trim() || undefined) !== savedArtifact.folder
+      || tags.join(',') !== savedArtifact.tags.join(',');
+  }, [savedArtifact, title, description, type, code, folder, tags]);
+
+  // Save and stay in the editor, or save and open the artifact view
+  const handleSave = async ({ view = false } = {}) => {
     if (!title.trim()) {
       setError('Title is required');
       return;
@@ -203,9 +207,14 @@ export function ArtifactEditor() {
       };
 
       if (isEditing && id) {
-        await saveArtifact(id, artifactData);
+        await saveArtifact(id, artifactData, revisionNote);
         setSaving(false);
-        navigate(`/view/${id}`);
+        if (view) {
+          navigate(`/view/${id}`);
+          return;
+        }
+        setRevisionNote('');
+        setSavedArtifact((await getArtifact(id)) || null);
       } else {
         const newId = await createArtifact({
           ...artifactData,
@@ -213,8 +222,10 @@ export function ArtifactEditor() {
           createdAt: new Date().toISOString()
         });
         setSaving(false);
-        navigate(`/view/${newId}`);
+        // Keep editing the new artifact, so that further saves update it
+        navigate(view ? `/view/${newId}` : `/edit/${newId}`, { replace: !view });
       }
+      setSavedAt(new Date());
     } catch (err) {
       console.error('Error saving artifact:', err);
       setError('Failed to save artifact');
@@ -222,6 +233,79 @@ export function ArtifactEditor() {
     }
   };
 
+  // Ctrl+S / Cmd+S saves without leaving the editor
+  const handleSaveRef = useRef(handleSave);
+  handleSaveRef.current = handleSave;
+  
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+        e.preventDefault();
+        handleSaveRef.current();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Restore a previous revision and reload it into the form
+  const handleRestoreRevision = async (revisionId: string) => {
+    if (!id) return;
+    
+    await restoreRevision(id, revisionId);
+    setReloadKey(key => key + 1);
+  };
+
+  // Shown on its own, or as the left pane of the split view
+  const codeEditor = (
+    <div className={`relative ${showPreview ? 'h-full' : ''}`}>
+      <CodeEditor
+        value={code}
+        onChange={setCode}
+        type={type}
+        diagnostics={diagnostics}
+        className={`border-2 rounded-md shadow-sm overflow-hidden ${
+          showPreview ? 'h-full rounded-r-none' : 'h-96'
+        } ${
+          type === 'react' 
+            ? 'border-blue-200 focus-within:border-blue-500' 
+            : type === 'svg' 
+              ? 'border-green-200 focus-within:border-green-500'
+              : type === 'mermaid'
+                ? 'border-purple-200 focus-within:border-purple-500'
+                : type === 'html'
+                  ? 'border-orange-200 focus-within:border-orange-500'
+                  : 'border-teal-200 focus-within:border-teal-500'
+        }`}
+        placeholder={
+          type === 'react' 
+            ? 'Paste your React component code here' 
+            : type === 'svg' 
+              ? 'Paste your SVG code here (must include <svg> tags)'
+              : type === 'mermaid'
+                ? 'Paste your Mermaid diagram syntax here'
+                : type === 'html'
+                  ? 'Paste your HTML document here'
+                  : 'Paste your markdown document here'
+        }
+      />
+      {autodetectType && code && (
+        <div className="absolute top-3 right-3 z-10 pointer-events-none">
+          <div className={`px-2 py-1 rounded text-xs text-white ${
+            type === 'react' ? 'bg-blue-500' : 
+            type === 'svg' ? 'bg-green-500' : 
+            type === 'mermaid' ? 'bg-purple-500' :
+            type === 'html' ? 'bg-orange-500' :
+            'bg-teal-500'
+          }`}>
+            {typeLabels[type]}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="p-4 max-w-4xl mx-auto">
@@ -234,7 +318,7 @@ export function ArtifactEditor() {
   }
 
   return (
-    <div className="p-4 max-w-4xl mx-auto">
+    <div className={`p-4 mx-auto ${showPreview ? 'max-w-7xl' : 'max-w-4xl'}`}>
       <h1 className="text-2xl font-bold mb-6">{isEditing ? 'Edit Artifact' : 'Create New Artifact'}</h1>
       
       {error && (
@@ -285,7 +369,7 @@ export function ArtifactEditor() {
           
           <select
             value={type}
-            onChange={(e) => setType(e.target.value as 'react' | 'svg' | 'mermaid')}
+            onChange={(e) => setType(e.target.value as ArtifactType)}
             className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
               autodetectType ? 'bg-gray-50' : ''
             }`}
@@ -293,26 +377,43 @@ export function ArtifactEditor() {
             <option value="react">React Component</option>
             <option value="svg">SVG Image</option>
             <option value="mermaid">Mermaid Diagram</option>
+            <option value="html">HTML Page</option>
+            <option value="markdown">Markdown Document</option>
           </select>
           
           <div className="mt-1 flex items-start">
             <div className={`h-4 w-4 mt-0.5 rounded-full ${
               type === 'react' ? 'bg-blue-500' : 
               type === 'svg' ? 'bg-green-500' : 
-              'bg-purple-500'
+              type === 'mermaid' ? 'bg-purple-500' :
+              type === 'html' ? 'bg-orange-500' :
+              'bg-teal-500'
             }`}></div>
             <p className="ml-2 text-sm text-gray-500">
               {type === 'react' && 'A React component that will be executed in the browser'}
               {type === 'svg' && 'An SVG image defined with XML tags'}
               {type === 'mermaid' && 'A diagram created with Mermaid syntax'}
+              {type === 'html' && 'A standalone HTML page, run with its scripts and styles'}
+              {type === 'markdown' && 'A markdown document; ```mermaid blocks are drawn as diagrams'}
             </p>
           </div>
           
-          {autodetectType && (
+          {autodetectType && (detectedTypes.length > 0 ? (
+            <p className="mt-1 text-xs text-gray-500">
+              Detected:{' '}
+              {detectedTypes.map((candidate, index) => (
+                <span key={candidate.type} title={candidate.reasons.join('\n')} className="cursor-help">
+                  {index > 0 && ' · '}
+                  <span className={index === 0 ? 'font-medium text-gray-700' : ''}>{typeLabels[candidate.type]}</span>
+                  {' '}{Math.round(candidate.confidence * 100)}%
+                </span>
+              ))}
+            </p>
+          ) : (
             <p className="mt-1 text-xs text-gray-500 italic">
               Type will be automatically detected as you enter code
             </p>
-          )}
+          ))}
         </div>
 
         <div>
@@ -466,57 +567,75 @@ export function ArtifactEditor() {
         </div>
         
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            {type === 'react' && 'Component Code'}
-            {type === 'svg' && 'SVG Code'}
-            {type === 'mermaid' && 'Mermaid Syntax'}
-          </label>
-          <div className="relative">
-            <textarea
-              value={code}
-              onChange={(e) => setCode(e.target.value)}
-              rows={15}
-              className={`w-full px-3 py-2 border-2 rounded-md shadow-sm focus:outline-none focus:ring-0 font-mono ${
-                type === 'react' 
-                  ? 'border-blue-200 focus:border-blue-500' 
-                  : type === 'svg' 
-                    ? 'border-green-200 focus:border-green-500'
-                    : 'border-purple-200 focus:border-purple-500'
-              }`}
-              placeholder={
-                type === 'react' 
-                  ? 'Paste your React component code here' 
-                  : type === 'svg' 
-                    ? 'Paste your SVG code here (must include <svg> tags)'
-                    : 'Paste your Mermaid diagram syntax here'
-              }
-            />
-            {autodetectType && code && (
-              <div className="absolute top-3 right-3">
-                <div className={`px-2 py-1 rounded text-xs text-white ${
-                  type === 'react' ? 'bg-blue-500' : 
-                  type === 'svg' ? 'bg-green-500' : 
-                  'bg-purple-500'
-                }`}>
-                  {type === 'react' && 'React'}
-                  {type === 'svg' && 'SVG'}
-                  {type === 'mermaid' && 'Mermaid'}
-                </div>
-              </div>
-            )}
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-sm font-medium text-gray-700">
+              {type === 'react' && 'Component Code'}
+              {type === 'svg' && 'SVG Code'}
+              {type === 'mermaid' && 'Mermaid Syntax'}
+              {type === 'html' && 'HTML Document'}
+              {type === 'markdown' && 'Markdown'}
+            </label>
+            <button
+              type="button"
+              onClick={() => setShowPreview(!showPreview)}
+              className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+            >
+              {showPreview ? <EyeOff size={14} className="mr-1" /> : <Eye size={14} className="mr-1" />}
+              {showPreview ? 'Hide preview' : 'Show preview'}
+            </button>
           </div>
+          {showPreview ? (
+            <ResizablePanelGroup direction="horizontal" className="h-[600px] border rounded-md">
+              <ResizablePanel defaultSize={50} minSize={25}>
+                {codeEditor}
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={50} minSize={20}>
+                <div className="h-full overflow-auto p-3">
+                  <ArtifactPreview code={code} type={type} />
+                </div>
+              </ResizablePanel>
+            </ResizablePanelGroup>
+          ) : (
+            codeEditor
+          )}
         </div>
       </div>
       
-      <div className="flex space-x-3">
+      {isEditing && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Revision note (optional)</label>
+          <input
+            type="text"
+            value={revisionNote}
+            onChange={(e) => setRevisionNote(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., Added dark mode toggle"
+          />
+          <p className="mt-1 text-sm text-gray-500">
+            Every save is kept in the artifact's history
+          </p>
+        </div>
+      )}
+      
+      <div className="flex flex-wrap items-center gap-3">
         <button
-          onClick={handleSave}
+          onClick={() => handleSave()}
           disabled={saving}
           className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
+          title="Save and keep editing (Ctrl+S)"
         >
           {saving ? 'Saving...' : 'Save Artifact'}
         </button>
         
+        <button
+          onClick={() => handleSave({ view: true })}
+          disabled={saving}
+          className="border border-blue-500 text-blue-600 hover:bg-blue-50 px-4 py-2 rounded disabled:opacity-50"
+        >
+          Save &amp; View
+        </button>
+        
         <button
           onClick={() => navigate(id ? `/view/${id}` : '/')}
           className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded"
@@ -524,13 +643,38 @@ export function ArtifactEditor() {
           {id ? 'View Artifact' : 'Cancel'}
         </button>
         
+        {isEditing && (
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`border px-4 py-2 rounded ${showHistory ? 'bg-gray-200 border-gray-400' : 'border-gray-300 hover:bg-gray-100'}`}
+          >
+            History
+          </button>
+        )}
+        
         <button
           onClick={() => navigate('/')}
           className="border border-gray-300 hover:bg-gray-100 px-4 py-2 rounded"
         >
           Back to Gallery
         </button>
+        
+        <span className="text-sm text-gray-500">
+          {hasUnsavedChanges
+            ? 'Unsaved changes'
+            : savedAt && `Saved at ${savedAt.toLocaleTimeString()}`}
+        </span>
       </div>
+      
+      {showHistory && savedArtifact && (
+        <div className="mt-6">
+          <ArtifactHistory
+            artifact={savedArtifact}
+            onRestore={handleRestoreRevision}
+            onClose={() => setShowHistory(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
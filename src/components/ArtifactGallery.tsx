@@ -1,16 +1,41 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
-import { useArtifactStore } from '../lib/store';
-import { Folder, Home, ChevronRight } from 'lucide-react';
+import { useArtifactStore, type Artifact, type ImportPreview, type ImportResolution } from '../lib/store';
+import { Folder, FolderPlus, Home, ChevronRight, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { ImportDialog } from './ImportDialog';
+import { StorageUsageIndicator } from './StorageUsageIndicator';
+import { ThumbnailGenerator } from './ThumbnailGenerator';
+import { SearchMatches } from './SearchMatches';
+import { BulkActionBar } from './BulkActionBar';
+import { FolderTree } from './FolderTree';
+import { FolderDialog, DeleteFolderDialog } from './FolderDialog';
+import { SiteExportDialog } from './SiteExportDialog';
+import { isZipData } from '../lib/archive';
+import { hasSearchText, isEmptyQuery, parseSearchQuery, searchArtifacts, type SearchResult } from '../lib/search';
+import { buildFolderTree, folderIconClass, isInFolder, normalizeFolderPath, parentFolderPath, type FolderNode } from '../lib/folders';
 
 export function ArtifactGallery() {
-  const { artifacts, loadArtifacts, exportArtifacts, importArtifacts } = useArtifactStore();
+  const {
+    artifacts,
+    folders,
+    invalidArtifacts,
+    loadArtifacts,
+    loadArtifactContent,
+    exportArtifacts,
+    exportArtifactArchive,
+    previewImport,
+    importArtifacts,
+    deleteArtifacts,
+    discardInvalidArtifacts
+  } = useArtifactStore();
   const [loading, setLoading] = useState(true);
   const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Import file awaiting conflict resolution in the import dialog
+  const [pendingImport, setPendingImport] = useState<{ data: string | Uint8Array; preview: ImportPreview } | null>(null);
   
   // Filtering and sorting state
-  const [filterType, setFilterType] = useState<'react' | 'svg' | 'mermaid' | 'all'>('all');
+  const [filterType, setFilterType] = useState<Artifact['type'] | 'all'>('all');
   const [filterFolder, setFilterFolder] = useState<string | 'all'>('all');
   
   // Folder navigation state
@@ -19,10 +44,20 @@ export function ArtifactGallery() {
   const navigate = useNavigate();
   const [filterTag, setFilterTag] = useState<string | 'all'>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [regexSearch, setRegexSearch] = useState(false);
   const [sortBy, setSortBy] = useState<'updatedAt' | 'createdAt' | 'title'>('updatedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   
+  // Multi-select state; the last clicked artifact anchors shift-click ranges
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastSelectedId = useRef<string | null>(null);
+  
+  // Folder being created or edited, and folder awaiting delete confirmation
+  const [folderDialog, setFolderDialog] = useState<{ node?: FolderNode; parentPath?: string } | null>(null);
+  const [deletingFolder, setDeletingFolder] = useState<FolderNode | null>(null);
+  const [showSiteExport, setShowSiteExport] = useState(false);
+  
   // Get all available tags and folders for filter dropdowns
   const allFolders = useArtifactStore(state => state.getAllFolders());
   const allTags = useArtifactStore(state => state.getAllTags());
@@ -37,10 +72,16 @@ export function ArtifactGallery() {
     fetchArtifacts();
   }, [loadArtifacts]);
   
+  // Trashed artifacts are only shown in the trash
+  const { liveArtifacts, trashCount } = useMemo(() => {
+    const live = artifacts.filter(artifact => !artifact.deletedAt);
+    return { liveArtifacts: live, trashCount: artifacts.length - live.length };
+  }, [artifacts]);
+  
   // Get folders and subfolders for the current navigation
-  const { foldersInCurrentPath, subFolders, currentFolderArtifacts } = useMemo(() => {
-    // Extract all unique folders
-    const allFolderPaths = new Set<string>();
+  const { folderTree, currentFolderNode, foldersInCurrentPath, subFolders, currentFolderArtifacts } = useMemo(() => {
+    // Folders created in the gallery and folders that artifacts are in
+    const tree = buildFolderTree(folders, liveArtifacts);
     
     // Track which folders are in the current path
     const foldersInPath: string[] = [];
@@ -59,67 +100,49 @@ export function ArtifactGallery() {
       }
     }
     
-    // Find direct subfolders of the current folder
-    const subFoldersSet = new Set<string>();
-    
-    // Track artifacts in the current folder
-    const artifactsInFolder: typeof artifacts = [];
-    
-    // Process all artifacts
-    artifacts.forEach(artifact => {
-      if (!artifact.folder) return;
-      
-      // Normalize folder path to use consistent separators
-      const normalizedFolder = artifact.folder.replace(/\\/g, '/');
-      allFolderPaths.add(normalizedFolder);
-      
-      // Check if this artifact is in the current folder
-      const isInCurrentFolder = !currentFolder 
-        ? !normalizedFolder.includes('/') // If at root, only show top-level folders
-        : normalizedFolder.startsWith(currentFolder + '/') || normalizedFolder === currentFolder;
-        
-      if (isInCurrentFolder) {
-        // If exactly in this folder (not in a subfolder)
-        if (normalizedFolder === currentFolder) {
-          artifactsInFolder.push(artifact);
-        }
-        // Extract direct subfolders
-        else if (normalizedFolder.startsWith(currentFolder + '/')) {
-          const remaining = normalizedFolder.substring(currentFolder.length + 1);
-          const nextLevel = remaining.split('/')[0];
-          if (nextLevel) {
-            const subFolderPath = currentFolder ? `${currentFolder}/${nextLevel}` : nextLevel;
-            subFoldersSet.add(subFolderPath);
-          }
-        }
-      }
-    });
-    
-    // For root level (no current folder), find all top-level folders
-    if (!currentFolder) {
-      artifacts.forEach(artifact => {
-        if (!artifact.folder) {
-          artifactsInFolder.push(artifact);
-        } else {
-          const normalizedFolder = artifact.folder.replace(/\\/g, '/');
-          if (!normalizedFolder.includes('/')) {
-            subFoldersSet.add(normalizedFolder);
-          }
-        }
-      });
+    // Find the current folder in the tree; its children are the subfolders
+    let node: FolderNode | undefined;
+    let children = tree;
+    for (const path of foldersInPath) {
+      node = children.find(child => child.path === path);
+      children = node?.children || [];
     }
     
     return {
+      folderTree: tree,
+      currentFolderNode: node,
       foldersInCurrentPath: foldersInPath,
-      subFolders: Array.from(subFoldersSet).sort(),
-      currentFolderArtifacts: artifactsInFolder
+      subFolders: currentFolder && !node ? [] : children,
+      currentFolderArtifacts: liveArtifacts.filter(artifact =>
+        normalizeFolderPath(artifact.folder || '') === currentFolder
+      )
     };
-  }, [artifacts, currentFolder]);
+  }, [folders, liveArtifacts, currentFolder]);
+
+  // Parse the search box; typing stays responsive while large galleries are searched
+  const deferredSearchTerm = useDeferredValue(searchTerm);
+  const { searchQuery, searchError } = useMemo(() => {
+    try {
+      const query = parseSearchQuery(deferredSearchTerm, regexSearch);
+      return { searchQuery: isEmptyQuery(query) ? null : query, searchError: null };
+    } catch (err) {
+      return { searchQuery: null, searchError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [deferredSearchTerm, regexSearch]);
+  const searchingText = searchQuery !== null && hasSearchText(searchQuery);
+
+  // Code is loaded lazily by some storage backends; load all of it to search it
+  useEffect(() => {
+    if (searchingText) {
+      loadArtifactContent().catch(err => console.error('Error loading artifacts to search:', err));
+    }
+  }, [searchingText, loadArtifactContent]);
 
-  // Apply additional filters and sorting to artifacts in current folder
-  const filteredAndSortedArtifacts = useMemo(() => {
+  // Apply additional filters and sorting to artifacts in current folder. A
+  // search looks through all folders and ranks the results.
+  const { filteredAndSortedArtifacts, searchResults } = useMemo(() => {
     // Filter artifacts based on other criteria (except folder which is handled by navigation)
-    const filtered = currentFolderArtifacts.filter(artifact => {
+    const filtered = (searchQuery ? liveArtifacts : currentFolderArtifacts).filter(artifact => {
       // Filter by type
       if (filterType !== 'all' && artifact.type !== filterType) {
         return false;
@@ -130,23 +153,11 @@ export function ArtifactGallery() {
         return false;
       }
       
-      // Filter by search term
-      if (searchTerm) {
-        const searchLower = searchTerm.toLowerCase();
-        const titleMatch = artifact.title.toLowerCase().includes(searchLower);
-        const descMatch = artifact.description?.toLowerCase().includes(searchLower) || false;
-        const tagMatch = artifact.tags.some(tag => tag.toLowerCase().includes(searchLower));
-        
-        if (!titleMatch && !descMatch && !tagMatch) {
-          return false;
-        }
-      }
-      
       return true;
     });
     
     // Then, sort the filtered artifacts
-    return [...filtered].sort((a, b) => {
+    const sorted = [...filtered].sort((a, b) => {
       // Handle different sort fields
       if (sortBy === 'title') {
         const titleA = a.title.toLowerCase();
@@ -161,22 +172,104 @@ export function ArtifactGallery() {
         return sortOrder === 'asc' ? dateA - dateB : dateB - dateA;
       }
     });
-  }, [currentFolderArtifacts, filterType, filterTag, searchTerm, sortBy, sortOrder]);
+    
+    if (!searchQuery) {
+      return { filteredAndSortedArtifacts: sorted, searchResults: null };
+    }
+    
+    // Better matches first, in the chosen order otherwise
+    const results = searchArtifacts(sorted, searchQuery);
+    return {
+      filteredAndSortedArtifacts: results.map(result => result.artifact),
+      searchResults: new Map<string, SearchResult>(results.map(result => [result.artifact.id, result]))
+    };
+  }, [liveArtifacts, currentFolderArtifacts, filterType, filterTag, searchQuery, sortBy, sortOrder]);
+
+  // Only artifacts that are shown can be selected, so hidden ones are never changed by accident
+  const selectedArtifacts = filteredAndSortedArtifacts.filter(artifact => selectedIds.has(artifact.id));
+  const allSelected = filteredAndSortedArtifacts.length > 0 && selectedArtifacts.length === filteredAndSortedArtifacts.length;
 
-  const handleExport = () => {
-    const jsonData = exportArtifacts();
-    const blob = new Blob([jsonData], { type: 'application/json' });
+  const toggleSelected = (id: string, range: boolean) => {
+    const next = new Set(selectedIds);
+    const anchor = lastSelectedId.current ? filteredAndSortedArtifacts.findIndex(a => a.id === lastSelectedId.current) : -1;
+    const index = filteredAndSortedArtifacts.findIndex(a => a.id === id);
+    
+    if (range && anchor !== -1) {
+      // Give the whole range the state the clicked checkbox changes to
+      const select = !selectedIds.has(id);
+      filteredAndSortedArtifacts
+        .slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+        .forEach(artifact => select ? next.add(artifact.id) : next.delete(artifact.id));
+    } else if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    
+    lastSelectedId.current = id;
+    setSelectedIds(next);
+  };
+  
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(filteredAndSortedArtifacts.map(artifact => artifact.id)));
+    lastSelectedId.current = null;
+  };
+  
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    lastSelectedId.current = null;
+  };
+
+  const downloadFile = (data: string | Uint8Array, type: string, fileName: string) => {
+    const blob = new Blob([data], { type });
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'artifacts.json';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const downloadJson = (jsonData: string, fileName: string) => downloadFile(jsonData, 'application/json', fileName);
+  
+  const handleExport = async () => {
+    downloadJson(await exportArtifacts(), 'artifacts.json');
+  };
+  
+  const handleExportZip = async () => {
+    downloadFile(await exportArtifactArchive(), 'application/zip', 'artifacts.zip');
+  };
+  
+  const handleExportSelected = async (ids: string[], format: 'json' | 'zip') => {
+    if (format === 'zip') {
+      downloadFile(await exportArtifactArchive(ids), 'application/zip', 'artifacts-selection.zip');
+    } else {
+      downloadJson(await exportArtifacts(ids), 'artifacts-selection.json');
+    }
+  };
+  
+  const handleDeleteSelected = async (ids: string[]) => {
+    const label = ids.length === 1 ? 'the selected artifact' : `${ids.length} selected artifacts`;
+    if (!confirm(`Move ${label} to the trash?`)) return;
+    
+    await deleteArtifacts(ids);
+    clearSelection();
+  };
+  
+  // Save the raw data of stored artifacts that failed validation
+  const handleDownloadInvalid = () => {
+    downloadJson(JSON.stringify(invalidArtifacts, null, 2), 'invalid-artifacts.json');
+  };
+  
+  const handleDiscardInvalid = () => {
+    if (confirm('Discard the stored artifacts that could not be loaded? This cannot be undone.')) {
+      discardInvalidArtifacts();
+    }
+  };
+
   const handleImport = () => {
     fileInputRef.current?.click();
   };
@@ -185,10 +278,25 @@ export function ArtifactGallery() {
   const navigateToFolder = (folderPath: string) => {
     setSearchParams(folderPath ? { folder: folderPath } : {});
     
-    // Reset other filters when navigating
+    // Reset other filters and the selection when navigating
     setFilterType('all');
     setFilterTag('all');
     setSearchTerm('');
+    clearSelection();
+  };
+  
+  // Follow the current folder when it is renamed or moved
+  const handleFolderSaved = (oldPath: string, newPath: string) => {
+    if (currentFolder && isInFolder(currentFolder, oldPath)) {
+      setSearchParams({ folder: newPath + currentFolder.slice(oldPath.length) });
+    }
+  };
+  
+  // Leave the current folder when it is deleted
+  const handleFolderDeleted = (path: string) => {
+    if (currentFolder && isInFolder(currentFolder, path)) {
+      navigateToFolder(parentFolderPath(path));
+    }
   };
   
   const navigateToParentFolder = () => {
@@ -206,32 +314,54 @@ export function ArtifactGallery() {
     }
   };
   
+  const showImportMessage = (message: { type: 'success' | 'error', text: string }) => {
+    setImportMessage(message);
+    
+    // Clear message after 5 seconds
+    setTimeout(() => {
+      setImportMessage(null);
+    }, 5000);
+  };
+  
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
     try {
-      const text = await file.text();
-      await importArtifacts(text);
-      setImportMessage({ type: 'success', text: 'Artifacts imported successfully!' });
+      // Zip exports are imported as bytes, JSON exports as text
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const data = isZipData(bytes) ? bytes : new TextDecoder().decode(bytes);
+      setPendingImport({ data, preview: previewImport(data) });
     } catch (err) {
-      setImportMessage({ type: 'error', text: 'Failed to import artifacts. Please check the file format.' });
+      const reason = err instanceof Error ? ` ${err.message}.` : '';
+      showImportMessage({ type: 'error', text: `Failed to import artifacts.${reason} Please check the file format.` });
     }
     
     // Reset file input
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+  };
+  
+  const handleConfirmImport = async (resolutions: Record<string, ImportResolution>) => {
+    if (!pendingImport) return;
     
-    // Clear message after 3 seconds
-    setTimeout(() => {
-      setImportMessage(null);
-    }, 3000);
+    try {
+      const { added, updated, skipped } = await importArtifacts(pendingImport.data, resolutions);
+      showImportMessage({
+        type: 'success',
+        text: `Import complete: ${added} added, ${updated} updated, ${skipped} skipped.`
+      });
+    } catch (err) {
+      showImportMessage({ type: 'error', text: 'Failed to import artifacts. Please check the file format.' });
+    }
+    
+    setPendingImport(null);
   };
 
   if (loading) {
     return (
-      <div className="p-4 max-w-4xl mx-auto">
+      <div className="p-4 max-w-6xl mx-auto">
         <h1 className="text-2xl font-bold mb-4">Artifacts Gallery</h1>
         <div className="flex items-center justify-center p-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
@@ -242,7 +372,7 @@ export function ArtifactGallery() {
   }
 
   return (
-    <div className="p-4 max-w-4xl mx-auto">
+    <div className="p-4 max-w-6xl mx-auto">
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center">
           <h1 className="text-2xl font-bold">Artifacts Gallery</h1>
@@ -258,290 +388,491 @@ export function ArtifactGallery() {
             Create New Artifact
           </Link>
           <button onClick={handleExport} className="px-4 py-2 border rounded hover:bg-gray-100">Export All</button>
+          <button
+            onClick={handleExportZip}
+            className="px-4 py-2 border rounded hover:bg-gray-100"
+            title="A zip with one source file per artifact, in directories for its folders"
+          >
+            Export Zip
+          </button>
+          <button
+            onClick={() => setShowSiteExport(true)}
+            className="px-4 py-2 border rounded hover:bg-gray-100"
+            title="A read-only website of a folder, a tag or the whole gallery"
+          >
+            Export Site
+          </button>
           <button onClick={handleImport} className="px-4 py-2 border rounded hover:bg-gray-100">Import</button>
+          <Link
+            to="/import/claude"
+            className="px-4 py-2 border rounded hover:bg-gray-100"
+            title="Find artifacts in a Claude data export or a pasted conversation"
+          >
+            Import from Claude
+          </Link>
+          <Link to="/trash" className="flex items-center px-4 py-2 border rounded hover:bg-gray-100" title="Trash">
+            <Trash2 size={16} />
+            {trashCount > 0 && <span className="ml-1 text-sm">{trashCount}</span>}
+          </Link>
           <input 
             type="file" 
             ref={fileInputRef} 
             onChange={handleFileChange} 
-            accept=".json" 
+            accept=".json,.zip" 
             className="hidden" 
           />
         </div>
       </div>
       
-      {/* Breadcrumb Navigation */}
-      <div className="flex items-center mb-4 bg-gray-50 px-4 py-2 rounded border overflow-x-auto">
-        <button 
-          onClick={() => navigateToFolder('')}
-          className="flex items-center text-blue-600 hover:text-blue-800"
-        >
-          <Home size={16} className="mr-1" />
-          <span>Home</span>
-        </button>
+      <div className="flex gap-6">
+        <aside className="hidden md:block w-56 shrink-0">
+          <div className="sticky top-4">
+            <FolderTree
+              tree={folderTree}
+              currentFolder={currentFolder}
+              onNavigate={navigateToFolder}
+              onCreate={(parentPath) => setFolderDialog({ parentPath })}
+              onEdit={(node) => setFolderDialog({ node })}
+              onDelete={setDeletingFolder}
+            />
+          </div>
+        </aside>
         
-        {foldersInCurrentPath.map((folder, index) => (
-          <div key={folder} className="flex items-center">
-            <ChevronRight size={16} className="mx-2 text-gray-400" />
+        <div className="flex-1 min-w-0">
+          {/* Breadcrumb Navigation */}
+          <div className="flex items-center mb-4 bg-gray-50 px-4 py-2 rounded border overflow-x-auto">
             <button 
-              onClick={() => navigateToFolder(folder)}
-              className={`flex items-center ${index === foldersInCurrentPath.length - 1 
-                ? 'font-semibold text-gray-800' 
-                : 'text-blue-600 hover:text-blue-800'}`}
+              onClick={() => navigateToFolder('')}
+              className="flex items-center text-blue-600 hover:text-blue-800"
             >
-              {folder.split('/').pop()}
+              <Home size={16} className="mr-1" />
+              <span>Home</span>
             </button>
-          </div>
-        ))}
-      </div>
-      
-      {/* Filters */}
-      <div className="bg-gray-50 border rounded-lg p-4 mb-4">
-        <h2 className="text-lg font-medium mb-3">Filters</h2>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          {/* Search */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Search artifacts..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            />
+            
+            {foldersInCurrentPath.map((folder, index) => (
+              <div key={folder} className="flex items-center">
+                <ChevronRight size={16} className="mx-2 text-gray-400" />
+                <button 
+                  onClick={() => navigateToFolder(folder)}
+                  className={`flex items-center ${index === foldersInCurrentPath.length - 1 
+                    ? 'font-semibold text-gray-800' 
+                    : 'text-blue-600 hover:text-blue-800'}`}
+                >
+                  {folder.split('/').pop()}
+                </button>
+              </div>
+            ))}
           </div>
           
-          {/* Type filter */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
-            <select
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value as 'react' | 'svg' | 'mermaid' | 'all')}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="all">All Types</option>
-              <option value="react">React Components</option>
-              <option value="svg">SVG Images</option>
-              <option value="mermaid">Mermaid Diagrams</option>
-            </select>
-          </div>
+          {currentFolderNode?.folder?.description && (
+            <p className="text-gray-600 mb-4">{currentFolderNode.folder.description}</p>
+          )}
           
-          {/* Folder filter */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Folder</label>
-            <select
-              value={filterFolder}
-              onChange={(e) => setFilterFolder(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="all">All Folders</option>
-              <option value="<No Folder>">No Folder</option>
-              {allFolders.map(folder => (
-                <option key={folder} value={folder}>{folder}</option>
-              ))}
-            </select>
+          <div className="flex justify-end mb-2">
+            <StorageUsageIndicator />
           </div>
           
-          {/* Tag filter */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Tag</label>
-            <select
-              value={filterTag}
-              onChange={(e) => setFilterTag(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="all">All Tags</option>
-              {allTags.map(tag => (
-                <option key={tag} value={tag}>{tag}</option>
-              ))}
-            </select>
-          </div>
-        </div>
-        
-        {/* Clear filters button */}
-        {(filterType !== 'all' || filterFolder !== 'all' || filterTag !== 'all' || searchTerm) && (
-          <div className="mt-3 text-right">
-            <button
-              onClick={() => {
-                setFilterType('all');
-                setFilterFolder('all');
-                setFilterTag('all');
-                setSearchTerm('');
-              }}
-              className="text-blue-600 hover:text-blue-800 text-sm"
-            >
-              Clear All Filters
-            </button>
-          </div>
-        )}
-      </div>
-      
-      {importMessage && (
-        <div className={`p-3 mb-4 rounded ${
-          importMessage.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
-        }`}>
-          {importMessage.text}
-        </div>
-      )}
-
-      {/* Folders */}
-      {subFolders.length > 0 && (
-        <div className="mb-6">
-          <h2 className="text-lg font-medium mb-3">Folders</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-            {subFolders.map((folderPath) => {
-              const folderName = folderPath.split('/').pop();
-              return (
+          {/* Filters */}
+          <div className="bg-gray-50 border rounded-lg p-4 mb-4">
+            <h2 className="text-lg font-medium mb-3">Filters</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {/* Search */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search artifacts..."
+                    title={'Searches titles, descriptions, tags and code. Use "quoted phrases", type:svg, tag:name and folder:path'}
+                    className={`w-full pl-3 pr-10 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                      searchError ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setRegexSearch(!regexSearch)}
+                    className={`absolute right-1.5 top-1/2 -translate-y-1/2 px-1.5 py-0.5 rounded font-mono text-xs ${
+                      regexSearch ? 'bg-blue-100 text-blue-800' : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                    title={regexSearch ? 'Regular expression search (on)' : 'Regular expression search (off)'}
+                    aria-pressed={regexSearch}
+                  >
+                    .*
+                  </button>
+                </div>
+                {searchError && (
+                  <p className="mt-1 text-xs text-red-600">{searchError}</p>
+                )}
+              </div>
+              
+              {/* Type filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={filterType}
+                  onChange={(e) => setFilterType(e.target.value as Artifact['type'] | 'all')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="all">All Types</option>
+                  <option value="react">React Components</option>
+                  <option value="svg">SVG Images</option>
+                  <option value="mermaid">Mermaid Diagrams</option>
+                  <option value="html">HTML Pages</option>
+                  <option value="markdown">Markdown Documents</option>
+                </select>
+              </div>
+              
+              {/* Folder filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Folder</label>
+                <select
+                  value={filterFolder}
+                  onChange={(e) => setFilterFolder(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="all">All Folders</option>
+                  <option value="<No Folder>">No Folder</option>
+                  {allFolders.map(folder => (
+                    <option key={folder} value={folder}>{folder}</option>
+                  ))}
+                </select>
+              </div>
+              
+              {/* Tag filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tag</label>
+                <select
+                  value={filterTag}
+                  onChange={(e) => setFilterTag(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="all">All Tags</option>
+                  {allTags.map(tag => (
+                    <option key={tag} value={tag}>{tag}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            
+            {/* Clear filters button */}
+            {(filterType !== 'all' || filterFolder !== 'all' || filterTag !== 'all' || searchTerm) && (
+              <div className="mt-3 text-right">
                 <button
-                  key={folderPath}
-                  onClick={() => navigateToFolder(folderPath)}
-                  className="flex items-center p-3 border rounded bg-white hover:bg-blue-50 transition-colors text-left"
+                  onClick={() => {
+                    setFilterType('all');
+                    setFilterFolder('all');
+                    setFilterTag('all');
+                    setSearchTerm('');
+                  }}
+                  className="text-blue-600 hover:text-blue-800 text-sm"
                 >
-                  <Folder size={20} className="mr-2 text-blue-500" />
-                  <span className="font-medium">{folderName}</span>
+                  Clear All Filters
                 </button>
-              );
-            })}
+              </div>
+            )}
           </div>
-        </div>
-      )}
-      
-      {/* Artifacts */}
-      <div className="mb-3 flex justify-between items-center">
-        <h2 className="text-lg font-medium">
-          {currentFolder ? 'Artifacts in this folder' : 'Artifacts without folder'}
-        </h2>
-        
-        {/* Sorting controls (can be expanded later) */}
-        <div className="flex items-center gap-2">
-          <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as 'updatedAt' | 'createdAt' | 'title')}
-            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
-          >
-            <option value="updatedAt">Sort by: Last Updated</option>
-            <option value="createdAt">Sort by: Created</option>
-            <option value="title">Sort by: Title</option>
-          </select>
           
-          <button 
-            onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
-            className="p-1.5 border rounded hover:bg-gray-100"
-            title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
-          >
-            {sortOrder === 'asc' ? '↑' : '↓'}
-          </button>
-        </div>
-      </div>
-      
-      {filteredAndSortedArtifacts.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {filteredAndSortedArtifacts.map((artifact) => (
-            <div key={artifact.id} className="border rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow">
-              <div className="p-4">
-                <div className="flex items-center mb-2">
-                  <h2 className="text-xl font-semibold">{artifact.title || 'Untitled Artifact'}</h2>
-                  <span className={`ml-2 text-xs px-2 py-0.5 rounded ${
-                    artifact.type === 'react' 
-                      ? 'bg-blue-100 text-blue-800' 
-                      : artifact.type === 'svg' 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-purple-100 text-purple-800'
-                  }`}>
-                    {artifact.type === 'react' && 'React'}
-                    {artifact.type === 'svg' && 'SVG'}
-                    {artifact.type === 'mermaid' && 'Mermaid'}
-                  </span>
-                </div>
-                
-                {artifact.folder && (
-                  <div className="text-sm mb-2">
-                    <span className="text-gray-600">📁 </span>
-                    <span className="text-gray-700">{artifact.folder}</span>
-                  </div>
-                )}
-                
-                <p className="text-gray-600 mb-2 line-clamp-2">{artifact.description || 'No description'}</p>
-                
-                {artifact.tags && artifact.tags.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mb-2">
-                    {artifact.tags.map(tag => (
-                      <span key={tag} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
-                        #{tag}
-                      </span>
-                    ))}
-                  </div>
-                )}
-                
-                <div className="text-sm text-gray-500 mb-4">
-                  Created: {new Date(artifact.createdAt).toLocaleDateString()}
-                </div>
+          {invalidArtifacts.length > 0 && (
+            <div className="bg-amber-50 border border-amber-300 text-amber-900 p-3 mb-4 rounded">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  {invalidArtifacts.length} stored {invalidArtifacts.length === 1 ? 'artifact' : 'artifacts'} could not be loaded because the data is malformed.
+                </span>
                 <div className="flex space-x-2">
-                  <Link 
-                    to={`/view/${artifact.id}`} 
-                    className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm"
-                  >
-                    View
-                  </Link>
-                  <Link 
-                    to={`/edit/${artifact.id}`} 
-                    className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
-                  >
-                    Edit
-                  </Link>
+                  <button onClick={handleDownloadInvalid} className="px-3 py-1 border border-amber-400 rounded text-sm hover:bg-amber-100">
+                    Download raw data
+                  </button>
+                  <button onClick={handleDiscardInvalid} className="px-3 py-1 border border-amber-400 rounded text-sm hover:bg-amber-100">
+                    Discard
+                  </button>
                 </div>
               </div>
+              <ul className="mt-2 text-sm space-y-0.5">
+                {invalidArtifacts.map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{issue.title ? `"${issue.title}"` : `Entry #${issue.index + 1}`}:</span>{' '}
+                    {issue.problems.join('; ')}
+                  </li>
+                ))}
+              </ul>
             </div>
-          ))}
-        </div>
-      ) : (
-        <div className="text-center py-12 border rounded-lg bg-gray-50">
-          <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10"></path>
-          </svg>
-          {artifacts.length === 0 ? (
-            <>
-              <p className="text-gray-600 mb-4">No artifacts found</p>
-              <Link to="/create" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded">
-                Create Your First Artifact
-              </Link>
-            </>
-          ) : subFolders.length > 0 && filteredAndSortedArtifacts.length === 0 && !searchTerm && filterType === 'all' && filterTag === 'all' ? (
-            <>
-              <p className="text-gray-600 mb-2">This folder contains subfolders but no direct artifacts</p>
-              <p className="text-gray-500 text-sm mb-4">Navigate into a subfolder to view its contents</p>
-            </>
-          ) : currentFolder && filteredAndSortedArtifacts.length === 0 && !searchTerm && filterType === 'all' && filterTag === 'all' ? (
-            <>
-              <p className="text-gray-600 mb-2">This folder is empty</p>
-              <div className="flex space-x-2 mt-4">
-                <Link to="/create" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded">
-                  Create New Artifact
-                </Link>
+          )}
+          
+          {pendingImport && (
+            <ImportDialog
+              preview={pendingImport.preview}
+              onConfirm={handleConfirmImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+          
+          {importMessage && (
+            <div className={`p-3 mb-4 rounded ${
+              importMessage.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+            }`}>
+              {importMessage.text}
+            </div>
+          )}
+
+          {/* Folders */}
+          {!searchQuery && (
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-3">
+                <h2 className="text-lg font-medium">Folders</h2>
                 <button
-                  onClick={navigateToParentFolder}
-                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded"
+                  onClick={() => setFolderDialog({ parentPath: currentFolder })}
+                  className="flex items-center text-sm px-3 py-1 border rounded hover:bg-gray-100"
                 >
-                  Go Back
+                  <FolderPlus size={16} className="mr-1" />
+                  New Folder
                 </button>
               </div>
-            </>
-          ) : (
-            <>
-              <p className="text-gray-600 mb-2">No artifacts match your filters</p>
-              <p className="text-gray-500 text-sm mb-4">Try adjusting your filter criteria</p>
-              <button
-                onClick={() => {
-                  setFilterType('all');
-                  setFilterTag('all');
-                  setSearchTerm('');
-                }}
-                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+              {subFolders.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {subFolders.map((node) => (
+                    <button
+                      key={node.path}
+                      onClick={() => navigateToFolder(node.path)}
+                      className="flex items-center p-3 border rounded bg-white hover:bg-blue-50 transition-colors text-left"
+                      title={node.folder?.description}
+                    >
+                      <Folder size={20} className={`mr-2 shrink-0 ${folderIconClass(node.folder?.color)}`} />
+                      <span className="font-medium truncate">{node.name}</span>
+                      <span className="ml-auto pl-2 text-sm text-gray-400">{node.totalCount}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No subfolders</p>
+              )}
+            </div>
+          )}
+          
+          {/* Artifacts */}
+          <div className="mb-3 flex justify-between items-center">
+            <div className="flex items-center">
+              {filteredAndSortedArtifacts.length > 0 && (
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  ref={(input) => {
+                    if (input) input.indeterminate = selectedArtifacts.length > 0 && !allSelected;
+                  }}
+                  onChange={toggleSelectAll}
+                  className="mr-3 h-4 w-4"
+                  title={searchQuery ? 'Select all results' : 'Select all in this folder'}
+                  aria-label={searchQuery ? 'Select all results' : 'Select all in this folder'}
+                />
+              )}
+              <h2 className="text-lg font-medium">
+              {searchQuery
+                ? `Search results (${filteredAndSortedArtifacts.length})`
+                : currentFolder ? 'Artifacts in this folder' : 'Artifacts without folder'}
+              </h2>
+            </div>
+            
+            {/* Sorting controls (can be expanded later) */}
+            <div className="flex items-center gap-2">
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as 'updatedAt' | 'createdAt' | 'title')}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
               >
-                Clear All Filters
+                <option value="updatedAt">Sort by: Last Updated</option>
+                <option value="createdAt">Sort by: Created</option>
+                <option value="title">Sort by: Title</option>
+              </select>
+              
+              <button 
+                onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                className="p-1.5 border rounded hover:bg-gray-100"
+                title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                {sortOrder === 'asc' ? '↑' : '↓'}
               </button>
-            </>
+            </div>
+          </div>
+          
+          {selectedArtifacts.length > 0 && (
+            <BulkActionBar
+              artifacts={selectedArtifacts}
+              onClearSelection={clearSelection}
+              onExport={handleExportSelected}
+              onDelete={handleDeleteSelected}
+            />
+          )}
+          
+          {/* Renders card previews offscreen, starting with the cards shown first */}
+          <ThumbnailGenerator artifacts={filteredAndSortedArtifacts} />
+          
+          {filteredAndSortedArtifacts.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {filteredAndSortedArtifacts.map((artifact) => (
+                <div key={artifact.id} className={`border rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow ${
+                  selectedIds.has(artifact.id) ? 'ring-2 ring-blue-400' : ''
+                }`}>
+                  <Link to={`/view/${artifact.id}`} className="block h-40 bg-gray-50 border-b overflow-hidden">
+                    {artifact.thumbnail ? (
+                      <img
+                        src={artifact.thumbnail.dataUrl}
+                        alt=""
+                        className="w-full h-full object-cover object-top"
+                      />
+                    ) : (
+                      <div className="h-full flex flex-col items-center justify-center text-gray-400 text-sm">
+                        <ImageIcon size={28} className="mb-1" />
+                        No preview yet
+                      </div>
+                    )}
+                  </Link>
+                  <div className="p-4">
+                    <div className="flex items-center mb-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(artifact.id)}
+                        // Shift-click selects or clears everything since the last clicked artifact
+                        onChange={(e) => toggleSelected(artifact.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                        className="mr-3 h-4 w-4 shrink-0"
+                        aria-label={`Select ${artifact.title || 'Untitled Artifact'}`}
+                      />
+                      <h2 className="text-xl font-semibold">{artifact.title || 'Untitled Artifact'}</h2>
+                      <span className={`ml-2 text-xs px-2 py-0.5 rounded ${
+                        artifact.type === 'react' 
+                          ? 'bg-blue-100 text-blue-800' 
+                          : artifact.type === 'svg' 
+                            ? 'bg-green-100 text-green-800' 
+                            : artifact.type === 'mermaid'
+                              ? 'bg-purple-100 text-purple-800'
+                              : artifact.type === 'html'
+                                ? 'bg-orange-100 text-orange-800'
+                                : 'bg-teal-100 text-teal-800'
+                      }`}>
+                        {artifact.type === 'react' && 'React'}
+                        {artifact.type === 'svg' && 'SVG'}
+                        {artifact.type === 'mermaid' && 'Mermaid'}
+                        {artifact.type === 'html' && 'HTML'}
+                        {artifact.type === 'markdown' && 'Markdown'}
+                      </span>
+                    </div>
+                    
+                    {artifact.folder && (
+                      <div className="text-sm mb-2">
+                        <span className="text-gray-600">📁 </span>
+                        <span className="text-gray-700">{artifact.folder}</span>
+                      </div>
+                    )}
+                    
+                    <p className="text-gray-600 mb-2 line-clamp-2">{artifact.description || 'No description'}</p>
+                    
+                    {searchResults?.has(artifact.id) && (
+                      <SearchMatches result={searchResults.get(artifact.id)!} />
+                    )}
+                    
+                    {artifact.tags && artifact.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {artifact.tags.map(tag => (
+                          <span key={tag} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    
+                    <div className="text-sm text-gray-500 mb-4">
+                      Created: {new Date(artifact.createdAt).toLocaleDateString()}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Link 
+                        to={`/view/${artifact.id}`} 
+                        className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm"
+                      >
+                        View
+                      </Link>
+                      <Link 
+                        to={`/edit/${artifact.id}`} 
+                        className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+                      >
+                        Edit
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 border rounded-lg bg-gray-50">
+              <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10"></path>
+              </svg>
+              {liveArtifacts.length === 0 ? (
+                <>
+                  <p className="text-gray-600 mb-4">No artifacts found</p>
+                  <Link to="/create" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded">
+                    Create Your First Artifact
+                  </Link>
+                </>
+              ) : subFolders.length > 0 && filteredAndSortedArtifacts.length === 0 && !searchTerm && filterType === 'all' && filterTag === 'all' ? (
+                <>
+                  <p className="text-gray-600 mb-2">This folder contains subfolders but no direct artifacts</p>
+                  <p className="text-gray-500 text-sm mb-4">Navigate into a subfolder to view its contents</p>
+                </>
+              ) : currentFolder && filteredAndSortedArtifacts.length === 0 && !searchTerm && filterType === 'all' && filterTag === 'all' ? (
+                <>
+                  <p className="text-gray-600 mb-2">This folder is empty</p>
+                  <div className="flex space-x-2 mt-4">
+                    <Link to="/create" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded">
+                      Create New Artifact
+                    </Link>
+                    <button
+                      onClick={navigateToParentFolder}
+                      className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded"
+                    >
+                      Go Back
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-gray-600 mb-2">No artifacts match your filters</p>
+                  <p className="text-gray-500 text-sm mb-4">Try adjusting your filter criteria</p>
+                  <button
+                    onClick={() => {
+                      setFilterType('all');
+                      setFilterTag('all');
+                      setSearchTerm('');
+                    }}
+                    className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+                  >
+                    Clear All Filters
+                  </button>
+                </>
+              )}
+            </div>
           )}
         </div>
+      </div>
+      
+      {folderDialog && (
+        <FolderDialog
+          node={folderDialog.node}
+          parentPath={folderDialog.parentPath}
+          onSaved={handleFolderSaved}
+          onClose={() => setFolderDialog(null)}
+        />
+      )}
+      
+      {deletingFolder && (
+        <DeleteFolderDialog
+          node={deletingFolder}
+          onDeleted={handleFolderDeleted}
+          onClose={() => setDeletingFolder(null)}
+        />
+      )}
+      
+      {showSiteExport && (
+        <SiteExportDialog currentFolder={currentFolder} onClose={() => setShowSiteExport(false)} />
       )}
     </div>
   );
@@ -0,0 +1,206 @@
+import { useState, useEffect, useMemo } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import type { Artifact, ArtifactRevision } from '../lib/store';
+import { diffLines } from '../lib/diff';
+
+interface ArtifactHistoryProps {
+  artifact: Artifact;
+  onRestore: (revisionId: string) => Promise<void>;
+  onClose?: () => void;
+}
+
+// Short human readable label for a revision in the selectors
+const revisionLabel = (revision: ArtifactRevision, index: number) => {
+  const date = new Date(revision.createdAt).toLocaleString();
+  return `#${index + 1} · ${date}${revision.note ? ` · ${revision.note}` : ''}`;
+};
+
+// Metadata fields that changed between two revisions
+const changedFields = (base: ArtifactRevision, compare: ArtifactRevision): string[] => {
+  const changes: string[] = [];
+  if (base.title !== compare.title) changes.push(`Title: "${base.title}" → "${compare.title}"`);
+  if ((base.description || '') !== (compare.description || '')) changes.push('Description changed');
+  if (base.type !== compare.type) changes.push(`Type: ${base.type} → ${compare.type}`);
+  if ((base.folder || '') !== (compare.folder || '')) {
+    changes.push(`Folder: ${base.folder || '(none)'} → ${compare.folder || '(none)'}`);
+  }
+  if (base.tags.join(',') !== compare.tags.join(',')) {
+    changes.push(`Tags: ${base.tags.join(', ') || '(none)'} → ${compare.tags.join(', ') || '(none)'}`);
+  }
+  return changes;
+};
+
+export function ArtifactHistory({ artifact, onRestore, onClose }: ArtifactHistoryProps) {
+  const revisions = useMemo(() => artifact.revisions || [], [artifact.revisions]);
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Default to comparing the latest revision with the one before it
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    setCompareId(revisions[revisions.length - 1].id);
+    setBaseId(revisions[Math.max(revisions.length - 2, 0)].id);
+  }, [revisions]);
+
+  const base = revisions.find(r => r.id === baseId);
+  const compare = revisions.find(r => r.id === compareId);
+
+  const diff = useMemo(
+    () => (base && compare ? diffLines(base.code, compare.code) : []),
+    [base, compare]
+  );
+  const addedCount = diff.filter(line => line.type === 'added').length;
+  const removedCount = diff.filter(line => line.type === 'removed').length;
+
+  const handleRestore = async (revision: ArtifactRevision) => {
+    if (!confirm(`Restore the revision from ${new Date(revision.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+
+    try {
+      setRestoringId(revision.id);
+      await onRestore(revision.id);
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      alert('Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-medium flex items-center">
+          <History size={18} className="mr-2 text-gray-600" />
+          History
+          <span className="ml-2 text-sm text-gray-500 font-normal">
+            {revisions.length} {revisions.length === 1 ? 'revision' : 'revisions'}
+          </span>
+        </h3>
+        {onClose && (
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" title="Close history">
+            <X size={18} />
+          </button>
+        )}
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="text-gray-500 text-sm">No revisions yet. A revision is recorded every time the artifact is saved.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {/* Revision list, newest first */}
+          <ul className="space-y-2 max-h-[400px] overflow-auto md:col-span-1">
+            {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+              <li
+                key={revision.id}
+                className={`border rounded p-2 text-sm ${revision.id === compareId ? 'border-blue-400 bg-blue-50' : ''}`}
+              >
+                <button
+                  onClick={() => {
+                    setCompareId(revision.id);
+                    setBaseId(revisions[Math.max(index - 1, 0)].id);
+                  }}
+                  className="text-left w-full"
+                >
+                  <div className="font-medium">
+                    #{index + 1} · {new Date(revision.createdAt).toLocaleString()}
+                  </div>
+                  <div className="text-gray-600 truncate">{revision.title}</div>
+                  {revision.note && <div className="text-gray-500 italic truncate">{revision.note}</div>}
+                </button>
+                {index < revisions.length - 1 && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringId !== null}
+                    className="mt-1 flex items-center text-blue-600 hover:text-blue-800 text-xs disabled:opacity-50"
+                  >
+                    <RotateCcw size={12} className="mr-1" />
+                    {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+                {index === revisions.length - 1 && (
+                  <div className="mt-1 text-xs text-gray-500">Current version</div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff between two selected revisions */}
+          <div className="md:col-span-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Compare from</label>
+                <select
+                  value={baseId}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {revisions.map((revision, index) => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision, index)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                <select
+                  value={compareId}
+                  onChange={(e) => setCompareId(e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {revisions.map((revision, index) => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision, index)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {base && compare && (
+              <>
+                {changedFields(base, compare).length > 0 && (
+                  <ul className="text-sm text-gray-700 bg-gray-50 border rounded p-2 mb-2 space-y-0.5">
+                    {changedFields(base, compare).map(change => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="text-xs text-gray-600 mb-1">
+                  <span className="text-green-700">+{addedCount}</span>{' '}
+                  <span className="text-red-700">-{removedCount}</span> lines
+                </div>
+
+                {addedCount === 0 && removedCount === 0 ? (
+                  <p className="text-sm text-gray-500">The code is identical in both revisions.</p>
+                ) : (
+                  <div className="bg-gray-50 border rounded overflow-auto max-h-[400px]">
+                    <pre className="font-mono text-xs">
+                      {diff.map((line, index) => (
+                        <div
+                          key={index}
+                          className={
+                            line.type === 'added'
+                              ? 'bg-green-100 text-green-900'
+                              : line.type === 'removed'
+                                ? 'bg-red-100 text-red-900'
+                                : 'text-gray-700'
+                          }
+                        >
+                          <span className="inline-block w-10 text-right pr-2 text-gray-400 select-none">{line.oldLine ?? ''}</span>
+                          <span className="inline-block w-10 text-right pr-2 text-gray-400 select-none">{line.newLine ?? ''}</span>
+                          <span className="select-none">{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}</span>
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { Artifact } from '../lib/store';
+import { findSvgParseError } from '../lib/codeDiagnostics';
+import { ReactRenderer } from './renderers/ReactRenderer';
+import { SVGRenderer } from './renderers/SVGRenderer';
+import { MermaidRenderer } from './renderers/MermaidRenderer';
+import { HTMLRenderer } from './renderers/HTMLRenderer';
+import { MarkdownRenderer } from './renderers/MarkdownRenderer';
+
+interface ArtifactPreviewProps {
+  code: string;
+  type: Artifact['type'];
+  // Milliseconds to wait after the last change before re-rendering
+  delay?: number;
+}
+
+// The value, once it has stopped changing for `delay` milliseconds
+function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+// Live rendering of the code being edited
+export function ArtifactPreview({ code, type, delay = 500 }: ArtifactPreviewProps) {
+  const previewCode = useDebouncedValue(code, delay);
+  const [compileError, setCompileError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCompileError(null);
+  }, [previewCode, type]);
+
+  const svgParseError = useMemo(
+    () => (type === 'svg' && previewCode.trim() ? findSvgParseError(previewCode) : null),
+    [type, previewCode]
+  );
+
+  if (!previewCode.trim()) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-400 text-sm p-4">
+        The preview appears here as you type
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      {code !== previewCode && (
+        <div className="absolute top-0 right-0 text-xs text-gray-400">Updating...</div>
+      )}
+
+      {compileError && (
+        <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm mb-3">
+          <div className="font-semibold mb-1">Could not compile the component</div>
+          <pre className="font-mono text-xs whitespace-pre-wrap">{compileError}</pre>
+        </div>
+      )}
+
+      {svgParseError && (
+        <div className="flex items-start bg-amber-50 border border-amber-200 text-amber-900 p-3 rounded text-sm mb-3">
+          <AlertTriangle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+          <pre className="font-mono text-xs whitespace-pre-wrap">{svgParseError}</pre>
+        </div>
+      )}
+
+      {type === 'react' && <ReactRenderer code={previewCode} onError={setCompileError} />}
+      {type === 'svg' && <SVGRenderer code={previewCode} />}
+      {type === 'mermaid' && <MermaidRenderer code={previewCode} />}
+      {type === 'html' && <HTMLRenderer code={previewCode} />}
+      {type === 'markdown' && <MarkdownRenderer code={previewCode} />}
+    </div>
+  );
+}
@@ -1,19 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useArtifactStore } from '../lib/store';
-// Import libraries that we'll provide as globals to artifacts
-import * as LucideIcons from 'lucide-react';
-import * as Recharts from 'recharts';
-// Import Babel for JSX transpilation
-import * as Babel from '@babel/standalone';
+import { detectArtifactType } from '../lib/detectType';
+import { getArtifactFileName } from '../lib/artifactFiles';
+import { exportStandaloneHtml } from '../lib/standaloneExport';
 // Import renderers
 import { SVGRenderer } from './renderers/SVGRenderer';
 import { MermaidRenderer } from './renderers/MermaidRenderer';
+import { HTMLRenderer } from './renderers/HTMLRenderer';
+import { MarkdownRenderer } from './renderers/MarkdownRenderer';
+import { ReactRenderer } from './renderers/ReactRenderer';
+import { ArtifactHistory } from './ArtifactHistory';
+import { ShareDialog } from './ShareDialog';
+import type { SharedArtifact } from '../lib/share';
 
-export function ArtifactRunner() {
+interface ArtifactRunnerProps {
+  // An artifact opened from a share link, shown read-only instead of one from the gallery
+  shared?: SharedArtifact;
+}
+
+export function ArtifactRunner({ shared }: ArtifactRunnerProps) {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { getArtifact, deleteArtifact } = useArtifactStore();
+  const { getArtifact, createArtifact, deleteArtifact, restoreArtifacts, restoreRevision } = useArtifactStore();
   
   const [artifact, setArtifact] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -21,17 +30,28 @@ export function ArtifactRunner() {
   const [renderedComponent, setRenderedComponent] = useState<React.ReactNode>(null);
   const [renderError, setRenderError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [exportingPage, setExportingPage] = useState(false);
+  // Incremented to reload the artifact after a revision is restored
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Download name with an extension matching the artifact's language (.tsx, .jsx, .svg, .mmd, .html, .md)
+  const downloadFileName = useMemo(
+    () => artifact ? getArtifactFileName(artifact) : 'artifact.tsx',
+    [artifact]
+  );
 
   useEffect(() => {
     const loadArtifact = async () => {
-      if (!id) {
+      if (!id && !shared) {
         setError('No artifact ID provided');
         setLoading(false);
         return;
       }
 
       try {
-        const artifactData = await getArtifact(id);
+        const artifactData = shared ?? await getArtifact(id!);
         if (!artifactData) {
           setError('Artifact not found');
           setLoading(false);
@@ -39,6 +59,7 @@ export function ArtifactRunner() {
         }
 
         setArtifact(artifactData);
+        setRenderError(null);
         
         // Render based on artifact type
         try {
@@ -49,25 +70,34 @@ export function ArtifactRunner() {
           } else if (artifactData.type === 'mermaid') {
             // For Mermaid, use the MermaidRenderer component
             setRenderedComponent(<MermaidRenderer code={artifactData.code} />);
+          } else if (artifactData.type === 'html') {
+            // HTML pages run in their own sandboxed iframe
+            setRenderedComponent(<HTMLRenderer code={artifactData.code} />);
+          } else if (artifactData.type === 'markdown') {
+            setRenderedComponent(<MarkdownRenderer code={artifactData.code} />);
           } else {
-            // Verify if it looks like React code before trying to execute it
+            // Check what the code looks like before trying to execute it
             // This helps avoid transpilation errors when a type is incorrectly set
-            if (shouldProcessAsReact(artifactData.code)) {
-              // Execute as React component
-              const component = executeComponentCode(artifactData.code);
-              setRenderedComponent(component);
-            } else if (looksLikeSvg(artifactData.code)) {
+            const detectedType = detectArtifactType(artifactData.code);
+            if (detectedType === 'svg') {
               // Fall back to SVG renderer if it looks like SVG
               console.warn('Code appears to be SVG but was marked as React. Rendering as SVG.');
               setRenderedComponent(<SVGRenderer code={artifactData.code} />);
-            } else if (looksLikeMermaid(artifactData.code)) {
+            } else if (detectedType === 'mermaid') {
               // Fall back to Mermaid renderer if it looks like Mermaid
               console.warn('Code appears to be Mermaid but was marked as React. Rendering as Mermaid.');
               setRenderedComponent(<MermaidRenderer code={artifactData.code} />);
+            } else if (detectedType === 'html') {
+              // Fall back to HTML renderer if it looks like an HTML page
+              console.warn('Code appears to be HTML but was marked as React. Rendering as HTML.');
+              setRenderedComponent(<HTMLRenderer code={artifactData.code} />);
+            } else if (detectedType === 'markdown') {
+              // Fall back to markdown renderer if it looks like a markdown document
+              console.warn('Code appears to be markdown but was marked as React. Rendering as markdown.');
+              setRenderedComponent(<MarkdownRenderer code={artifactData.code} />);
             } else {
-              // Still try as React as a last resort
-              const component = executeComponentCode(artifactData.code);
-              setRenderedComponent(component);
+              // Execute as React component inside the sandboxed iframe
+              setRenderedComponent(<ReactRenderer code={artifactData.code} onError={setRenderError} />);
             }
           }
         } catch (err: any) {
@@ -83,61 +113,54 @@ export function ArtifactRunner() {
     };
 
     loadArtifact();
-  }, [id, getArtifact]);
+  }, [id, shared, getArtifact, reloadKey]);
 
-  // Helper functions to detect content types
-  const looksLikeSvg = (content: string): boolean => {
-    const trimmedContent = content.trim();
-    return trimmedContent.includes('<svg') || 
-           !!trimmedContent.match(/<svg\s+[^>]*>/i) ||
-           (trimmedContent.includes('<') && 
-            trimmedContent.includes('</') && 
-            (trimmedContent.includes('circle') || 
-             trimmedContent.includes('rect') || 
-             trimmedContent.includes('path') || 
-             trimmedContent.includes('polygon')));
+  // Restore a previous revision and re-render the artifact
+  const handleRestoreRevision = async (revisionId: string) => {
+    if (!id) return;
+    
+    await restoreRevision(id, revisionId);
+    setReloadKey(key => key + 1);
   };
-  
-  const looksLikeMermaid = (content: string): boolean => {
-    const trimmedContent = content.trim();
-    const mermaidPatterns = [
-      /^graph\s+[A-Za-z0-9]/i,
-      /^flowchart\s+[A-Za-z0-9]/i,
-      /^sequenceDiagram/i,
-      /^classDiagram/i,
-      /^stateDiagram/i,
-      /^erDiagram/i,
-      /^journey/i,
-      /^gantt/i,
-      /^pie/i,
-      /^mindmap/i
-    ];
+
+  // Take the artifact back out of the trash
+  const handleRestoreFromTrash = async () => {
+    if (!id) return;
     
-    return mermaidPatterns.some(pattern => pattern.test(trimmedContent));
+    await restoreArtifacts([id]);
+    setReloadKey(key => key + 1);
   };
-  
-  const shouldProcessAsReact = (content: string): boolean => {
-    const trimmedContent = content.trim();
+
+  // Add a shared artifact to this browser's gallery
+  const handleSaveShared = async () => {
+    if (!shared) return;
     
-    // Check for clear indicators it's NOT React code
-    if (looksLikeSvg(content) || looksLikeMermaid(content)) {
-      return false;
-    }
+    const now = new Date().toISOString();
+    const newId = await createArtifact({ ...shared, createdAt: now, updatedAt: now });
+    navigate(`/view/${newId}`);
+  };
+
+  // Download a self-contained HTML page that shows the artifact without the gallery
+  const handleExportStandalone = async () => {
+    if (!artifact) return;
     
-    // Check for XML/HTML comments which cause Babel to fail
-    if (trimmedContent.includes('<!--')) {
-      return false;
+    setExportingPage(true);
+    try {
+      const html = await exportStandaloneHtml(artifact);
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = getArtifactFileName(artifact, 'html');
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting artifact:', err);
+      alert(`Failed to export the artifact: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExportingPage(false);
     }
-    
-    // Positive indicators it IS React code
-    return trimmedContent.includes('import React') || 
-           trimmedContent.includes('function') || 
-           trimmedContent.includes('class') || 
-           trimmedContent.includes('export default') ||
-           trimmedContent.includes('useState') ||
-           trimmedContent.includes('return') && 
-           trimmedContent.includes('<') && 
-           trimmedContent.includes('/>');
   };
 
   // Handle artifact deletion
@@ -153,176 +176,6 @@ export function ArtifactRunner() {
     }
   };
 
-  // Function to execute the component code with globals
-  const executeComponentCode = (code: string) => {
-    // Create globals that will be available to the component
-    const globals: Record<string, any> = {
-      React,
-      useState: React.useState,
-      useEffect: React.useEffect,
-      useRef: React.useRef,
-      useCallback: React.useCallback,
-      useMemo: React.useMemo,
-      useContext: React.useContext,
-      
-      // Add LucideIcons components
-      ...LucideIcons,
-      
-      // Add Recharts components
-      ...Recharts,
-      
-      // Extract potential Lucide icon imports from the code to ensure they're available
-      ...extractLucideIconImports(code)
-    };
-    
-    // Helper function to extract Lucide icon imports from code
-    function extractLucideIconImports(sourceCode: string): Record<string, any> {
-      const importedIcons: Record<string, any> = {};
-      
-      // Look for object destructuring imports: import { Icon1, Icon2 } from 'lucide-react'
-      const objectImportRegex = /import\s+{\s*([^}]*)\s*}\s+from\s+['"]lucide-react['"];?/g;
-      let objectMatch;
-      
-      while ((objectMatch = objectImportRegex.exec(sourceCode)) !== null) {
-        const iconList = objectMatch[1];
-        const icons = iconList.split(',').map(s => s.trim());
-        
-        for (const icon of icons) {
-          if (icon && LucideIcons[icon as keyof typeof LucideIcons]) {
-            importedIcons[icon] = LucideIcons[icon as keyof typeof LucideIcons];
-          }
-        }
-      }
-      
-      // Look for named imports: import IconName from 'lucide-react'
-      const namedImportRegex = /import\s+(\w+)\s+from\s+['"]lucide-react['"];?/g;
-      let namedMatch;
-      
-      while ((namedMatch = namedImportRegex.exec(sourceCode)) !== null) {
-        const iconName = namedMatch[1];
-        if (iconName && LucideIcons[iconName as keyof typeof LucideIcons]) {
-          importedIcons[iconName] = LucideIcons[iconName as keyof typeof LucideIcons];
-        }
-      }
-      
-      return importedIcons;
-    }
-
-    try {
-      // Process the code to handle imports and exports
-      let processedCode = code
-        // Remove React imports
-        .replace(/import\s+React\s*,?\s*{\s*([^}]*)\s*}\s+from\s+['"]react['"];?/g, '')
-        .replace(/import\s+React\s+from\s+['"]react['"];?/g, '')
-        .replace(/import\s+{\s*([^}]*)\s*}\s+from\s+['"]react['"];?/g, '')
-        // Extract and process lucide-react imports
-        .replace(/import\s+{\s*([^}]*)\s*}\s+from\s+['"]lucide-react['"];?/g, (match, iconList) => {
-          // Leave a comment to show what was imported
-          return `/* Imported Lucide icons: ${iconList} */`;
-        })
-        .replace(/import\s+(\w+)\s+from\s+['"]lucide-react['"];?/g, (match, iconName) => {
-          return `/* Imported Lucide icon: ${iconName} */`;
-        })
-        // Handle recharts imports
-        .replace(/import\s+{\s*([^}]*)\s*}\s+from\s+['"]recharts['"];?/g, '')
-        // Comment out other imports
-        .replace(/import\s+(.+)\s+from\s+['"](.+)['"];?/g, '/* import $1 from "$2" */');
-
-      // Replace export statements with variable declarations
-      processedCode = processedCode
-        .replace(/export\s+default\s+(\w+);?/g, 'var componentToRender = $1;')
-        .replace(/export\s+default\s+/g, 'var componentToRender = ');
-
-      try {
-        // Transform JSX to JavaScript using Babel
-        const transformedCode = Babel.transform(processedCode, {
-          presets: ['react'],
-          filename: 'artifact.jsx' // Provide a filename to satisfy Babel
-        }).code;
-
-        if (!transformedCode) {
-          throw new Error('Failed to transform component code');
-        }
-        
-        // Create a module-like object to hold the component
-        const module = { exports: {} };
-        
-        // Wrap the code to capture the component
-        const wrappedCode = `
-          ${transformedCode}
-          
-          // Return the component (either from an explicit declaration or the last defined component)
-          if (typeof componentToRender !== 'undefined') {
-            return componentToRender;
-          } else {
-            // Try to find a React component in the code
-            // Look for function components or class components
-            var components = Object.keys(this).filter(key => {
-              var obj = this[key];
-              return typeof obj === 'function' && 
-                    (obj.prototype && obj.prototype.isReactComponent || 
-                    /return\\s+React\\.createElement/.test(obj.toString()));
-            });
-            
-            if (components.length > 0) {
-              return this[components[components.length - 1]];
-            }
-            
-            return null;
-          }
-        `;
-        
-        // Execute with all globals provided
-        const componentFn = new Function(...Object.keys(globals), wrappedCode);
-        const ComponentClass = componentFn.apply({}, Object.values(globals));
-        
-        // Check if we got a valid component
-        if (!ComponentClass) {
-          throw new Error('No component found in the artifact code');
-        }
-        
-        // Return the React element
-        return React.createElement(ComponentClass);
-      } catch (err: any) {
-        // Check if this looks like it might actually be SVG or Mermaid
-        if (looksLikeSvg(code)) {
-          throw new Error('This appears to be SVG code. Try changing the artifact type to "SVG Image".');
-        } else if (looksLikeMermaid(code)) {
-          throw new Error('This appears to be Mermaid diagram code. Try changing the artifact type to "Mermaid Diagram".');
-        } else if (code.includes('<!--')) {
-          throw new Error('HTML comments (<!-- -->) are not supported in React components. If this is SVG code, change the artifact type to "SVG Image".');
-        } else {
-          // Re-throw the original error
-          throw err;
-        }
-      }
-
-      // Code was moved inside the try/catch block
-    } catch (err: any) {
-      console.error('Component execution error:', err);
-      
-      // Check if the error might be related to missing Lucide icons
-      if (err.message && (
-          err.message.includes('is not defined') || 
-          err.message.includes('is not a function'))) {
-        
-        // Extract the icon name from the error message
-        const match = err.message.match(/([\w]+) is not defined/);
-        const iconName = match ? match[1] : null;
-        
-        if (iconName && !globals[iconName] && code.includes(`'lucide-react'`)) {
-          throw new Error(
-            `Missing icon: "${iconName}". Make sure it's properly imported from 'lucide-react'. ` +
-            `Available icons: ${Object.keys(LucideIcons).filter(name => 
-              typeof LucideIcons[name as keyof typeof LucideIcons] === 'function').join(', ')}`
-          );
-        }
-      }
-      
-      throw err;
-    }
-  };
-
   if (loading) {
     return (
       <div className="p-4 max-w-4xl mx-auto">
@@ -361,11 +214,17 @@ export function ArtifactRunner() {
                 ? 'bg-blue-100 text-blue-800' 
                 : artifact?.type === 'svg' 
                   ? 'bg-green-100 text-green-800' 
-                  : 'bg-purple-100 text-purple-800'
+                  : artifact?.type === 'mermaid'
+                    ? 'bg-purple-100 text-purple-800'
+                    : artifact?.type === 'html'
+                      ? 'bg-orange-100 text-orange-800'
+                      : 'bg-teal-100 text-teal-800'
             }`}>
               {artifact?.type === 'react' && 'React'}
               {artifact?.type === 'svg' && 'SVG'}
               {artifact?.type === 'mermaid' && 'Mermaid'}
+              {artifact?.type === 'html' && 'HTML'}
+              {artifact?.type === 'markdown' && 'Markdown'}
             </span>
             
             {artifact?.folder && (
@@ -376,18 +235,43 @@ export function ArtifactRunner() {
           </div>
         </div>
         <div className="flex space-x-2">
-          <button
-            onClick={() => navigate(`/edit/${id}`)}
-            className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
-          >
-            Edit
-          </button>
-          <button
-            onClick={() => setShowDeleteConfirm(true)}
-            className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-sm"
-          >
-            Delete
-          </button>
+          {shared ? (
+            <button
+              onClick={handleSaveShared}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Save to my gallery
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => navigate(`/edit/${id}`)}
+                className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`border px-3 py-1 rounded text-sm ${showHistory ? 'bg-gray-200 border-gray-400' : 'border-gray-300 hover:bg-gray-100'}`}
+              >
+                History{artifact?.revisions?.length ? ` (${artifact.revisions.length})` : ''}
+              </button>
+              <button
+                onClick={() => setShowShare(true)}
+                className="border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded text-sm"
+              >
+                Share
+              </button>
+              {!artifact?.deletedAt && (
+                <button
+                  onClick={() => setShowDeleteConfirm(true)}
+                  className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-sm"
+                >
+                  Delete
+                </button>
+              )}
+            </>
+          )}
           <button
             onClick={() => navigate('/')}
             className="border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded text-sm"
@@ -397,12 +281,37 @@ export function ArtifactRunner() {
         </div>
       </div>
       
+      {shared && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-900 p-3 mb-4 rounded">
+          This artifact was shared with you as a link. It is not in your gallery until you save it.
+        </div>
+      )}
+      
+      {artifact?.deletedAt && (
+        <div className="flex items-center justify-between bg-amber-50 border border-amber-300 text-amber-900 p-3 mb-4 rounded">
+          <span>This artifact is in the trash.</span>
+          <button
+            onClick={handleRestoreFromTrash}
+            className="px-3 py-1 border border-amber-400 rounded text-sm hover:bg-amber-100"
+          >
+            Restore
+          </button>
+        </div>
+      )}
+      
       {artifact?.description && (
         <div className="bg-gray-50 border rounded p-4 mb-4">
           <p>{artifact.description}</p>
         </div>
       )}
       
+      {artifact?.source && (
+        <p className="text-sm text-gray-500 mb-4">
+          From the Claude conversation “{artifact.source.conversation}”
+          {artifact.source.date && ` of ${new Date(artifact.source.date).toLocaleDateString()}`}
+        </p>
+      )}
+
       {artifact?.tags && artifact.tags.length > 0 && (
         <div className="flex flex-wrap gap-2 mb-4">
           {artifact.tags.map(tag => (
@@ -413,6 +322,14 @@ export function ArtifactRunner() {
         </div>
       )}
       
+      {showHistory && artifact && (
+        <ArtifactHistory
+          artifact={artifact}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      
       <div className="bg-white border rounded-lg shadow-sm p-6 mb-6">
         {renderError ? (
           <div className="text-center py-8">
@@ -440,6 +357,18 @@ export function ArtifactRunner() {
                 </div>
               )}
               
+              {renderError.includes('HTML page') && (
+                <div className="mt-4 p-3 bg-orange-50 border border-orange-200 text-orange-800 rounded">
+                  <strong>Tip:</strong> This appears to be an HTML page. Try changing the artifact type to "HTML Page" in the editor.
+                </div>
+              )}
+              
+              {renderError.includes('markdown document') && (
+                <div className="mt-4 p-3 bg-teal-50 border border-teal-200 text-teal-800 rounded">
+                  <strong>Tip:</strong> This appears to be a markdown document. Try changing the artifact type to "Markdown Document" in the editor.
+                </div>
+              )}
+              
               {renderError.includes('HTML comments') && (
                 <div className="mt-4 p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded">
                   <strong>Warning:</strong> HTML comments are causing issues with React transpilation. If this is SVG code, change the artifact type to "SVG Image".
@@ -469,11 +398,19 @@ export function ArtifactRunner() {
             </button>
             <a 
               href={`data:text/plain;charset=utf-8,${encodeURIComponent(artifact?.code || '')}`} 
-              download={`${artifact?.title || 'artifact'}.tsx`}
+              download={downloadFileName}
               className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded"
             >
               Download as File
             </a>
+            <button
+              onClick={handleExportStandalone}
+              disabled={exportingPage}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded disabled:opacity-50"
+              title="A single HTML file that shows the artifact without the gallery"
+            >
+              {exportingPage ? 'Exporting...' : 'Export as Standalone Page'}
+            </button>
           </div>
         </div>
       </div>
@@ -486,14 +423,18 @@ export function ArtifactRunner() {
           </pre>
         </div>
       </div>
+      {showShare && artifact && (
+        <ShareDialog artifact={artifact} onClose={() => setShowShare(false)} />
+      )}
+      
       {/* Delete Confirmation Dialog */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
             <h3 className="text-xl font-bold mb-4">Delete Artifact</h3>
             <p className="mb-6">
-              Are you sure you want to delete <span className="font-semibold">{artifact?.title}</span>? 
-              This action cannot be undone.
+              Move <span className="font-semibold">{artifact?.title}</span> to the trash? 
+              You can restore it from the trash, or press Ctrl+Z to undo.
             </p>
             <div className="flex space-x-3 justify-end">
               <button
@@ -0,0 +1,131 @@
+import { useState, type FormEvent } from 'react';
+import { useArtifactStore, type Artifact } from '../lib/store';
+import { Download, FolderInput, Tag, Trash2, X } from 'lucide-react';
+
+interface BulkActionBarProps {
+  // The selected artifacts
+  artifacts: Artifact[];
+  onClearSelection: () => void;
+  onExport: (ids: string[], format: 'json' | 'zip') => void;
+  onDelete: (ids: string[]) => void;
+}
+
+const NEW_FOLDER = '<New Folder>';
+const NO_FOLDER = '<No Folder>';
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm bg-white';
+
+// Actions for the artifacts selected in the gallery
+export function BulkActionBar({ artifacts, onClearSelection, onExport, onDelete }: BulkActionBarProps) {
+  const { addTagToArtifacts, removeTagFromArtifacts, moveArtifacts, setArtifactsType } = useArtifactStore();
+  const allFolders = useArtifactStore(state => state.getAllFolders());
+  const [newTag, setNewTag] = useState('');
+  const ids = artifacts.map(artifact => artifact.id);
+
+  // Tags that at least one selected artifact has
+  const selectedTags = Array.from(new Set(artifacts.flatMap(artifact => artifact.tags))).sort();
+
+  const handleMove = (value: string) => {
+    if (value === NEW_FOLDER) {
+      const folder = prompt('Name of the new folder (use / for subfolders):');
+      if (folder?.trim()) {
+        moveArtifacts(ids, folder.trim());
+      }
+    } else if (value) {
+      moveArtifacts(ids, value === NO_FOLDER ? '' : value);
+    }
+  };
+
+  const handleAddTag = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newTag.trim()) return;
+    addTagToArtifacts(ids, newTag.trim());
+    setNewTag('');
+  };
+
+  const handleChangeType = (type: string) => {
+    if (!type) return;
+    const label = artifacts.length === 1 ? 'the selected artifact' : `${artifacts.length} artifacts`;
+    if (confirm(`Change the type of ${label} to ${type}? Each one is saved as a new revision.`)) {
+      setArtifactsType(ids, type as Artifact['type']);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-20 mb-4 flex flex-wrap items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg px-4 py-2 shadow-sm">
+      <span className="font-medium text-blue-900 mr-2">{artifacts.length} selected</span>
+
+      <div className="flex items-center gap-1">
+        <FolderInput size={16} className="text-gray-500" />
+        <select value="" onChange={(e) => handleMove(e.target.value)} className={selectClassName}>
+          <option value="">Move to...</option>
+          <option value={NO_FOLDER}>No Folder</option>
+          {allFolders.map(folder => (
+            <option key={folder} value={folder}>{folder}</option>
+          ))}
+          <option value={NEW_FOLDER}>+ New Folder</option>
+        </select>
+      </div>
+
+      <form onSubmit={handleAddTag} className="flex items-center gap-1">
+        <Tag size={16} className="text-gray-500" />
+        <input
+          type="text"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          placeholder="Add tag"
+          className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        <button type="submit" disabled={!newTag.trim()} className="px-2 py-1 border rounded text-sm bg-white hover:bg-gray-100 disabled:opacity-50">
+          Add
+        </button>
+      </form>
+
+      {selectedTags.length > 0 && (
+        <select value="" onChange={(e) => e.target.value && removeTagFromArtifacts(ids, e.target.value)} className={selectClassName}>
+          <option value="">Remove tag...</option>
+          {selectedTags.map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+      )}
+
+      <select value="" onChange={(e) => handleChangeType(e.target.value)} className={selectClassName}>
+        <option value="">Change type...</option>
+        <option value="react">React Component</option>
+        <option value="svg">SVG Image</option>
+        <option value="mermaid">Mermaid Diagram</option>
+        <option value="html">HTML Page</option>
+        <option value="markdown">Markdown Document</option>
+      </select>
+
+      <div className="flex items-center gap-2 ml-auto">
+        <button
+          onClick={() => onExport(ids, 'json')}
+          className="flex items-center px-2 py-1 border rounded text-sm bg-white hover:bg-gray-100"
+        >
+          <Download size={14} className="mr-1" />
+          Export
+        </button>
+        <button
+          onClick={() => onExport(ids, 'zip')}
+          className="flex items-center px-2 py-1 border rounded text-sm bg-white hover:bg-gray-100"
+          title="A zip with one source file per artifact"
+        >
+          <Download size={14} className="mr-1" />
+          Export Zip
+        </button>
+        <button
+          onClick={() => onDelete(ids)}
+          className="flex items-center px-2 py-1 border border-red-300 rounded text-sm text-red-700 bg-white hover:bg-red-50"
+        >
+          <Trash2 size={14} className="mr-1" />
+          Delete
+        </button>
+        <button onClick={onClearSelection} className="p-1 rounded hover:bg-blue-100" title="Clear selection">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useArtifactStore, type Artifact } from '../lib/store';
+import { findClaudeArtifacts, type ArtifactCandidate, type ClaudeImportResult } from '../lib/claudeImport';
+
+const TYPE_LABELS: Record<Artifact['type'], string> = {
+  react: 'React Component',
+  svg: 'SVG Image',
+  mermaid: 'Mermaid Diagram',
+  html: 'HTML Page',
+  markdown: 'Markdown Document',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Create artifacts from a Claude data export or a pasted chat transcript
+export function ClaudeImportView() {
+  const { createArtifacts } = useArtifactStore();
+  const allFolders = useArtifactStore(state => state.getAllFolders());
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [transcript, setTranscript] = useState('');
+  const [transcriptTitle, setTranscriptTitle] = useState('');
+  const [result, setResult] = useState<ClaudeImportResult | null>(null);
+  // Candidates as edited, by key; only the selected ones are created
+  const [edits, setEdits] = useState<Record<string, Pick<ArtifactCandidate, 'title' | 'type'>>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const showCandidates = (text: string, title: string) => {
+    setError(null);
+    try {
+      const found = findClaudeArtifacts(text, title);
+      setResult(found);
+      setEdits({});
+      // Code blocks whose type was only guessed are left for the user to pick
+      setSelected(new Set(found.candidates
+        .filter(candidate => candidate.origin === 'artifact' || candidate.typeGiven)
+        .map(candidate => candidate.key)));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      showCandidates(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      const reason = err instanceof Error ? ` ${err.message}.` : '';
+      setResult(null);
+      setError(`Failed to read ${file.name}.${reason}`);
+    }
+
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const edited = (candidate: ArtifactCandidate) => ({ ...candidate, ...edits[candidate.key] });
+
+  const handleCreate = async () => {
+    if (!result) return;
+    setCreating(true);
+    try {
+      const extraTags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+      const now = new Date().toISOString();
+      const chosen = result.candidates.filter(candidate => selected.has(candidate.key)).map(edited);
+      await createArtifacts(chosen.map(candidate => ({
+        title: candidate.title.trim() || 'Untitled Artifact',
+        type: candidate.type,
+        code: candidate.code,
+        tags: extraTags,
+        folder: folder || undefined,
+        createdAt: now,
+        updatedAt: now,
+        source: candidate.source,
+      })), `Import ${chosen.length} ${chosen.length === 1 ? 'artifact' : 'artifacts'} from Claude`);
+      navigate(folder ? `/?folder=${encodeURIComponent(folder)}` : '/');
+    } catch (err) {
+      console.error('Error creating artifacts:', err);
+      setError('Failed to create the artifacts');
+      setCreating(false);
+    }
+  };
+
+  // Candidates grouped by conversation, in the order they were found
+  const conversations = new Map<string, ArtifactCandidate[]>();
+  result?.candidates.forEach(candidate => {
+    const key = candidate.source.conversationId ?? candidate.source.conversation;
+    conversations.set(key, [...(conversations.get(key) ?? []), candidate]);
+  });
+
+  return (
+    <div className="p-4 max-w-4xl mx-auto">
+      <div className="flex justify-between items-center mb-4">
+        <h1 className="text-2xl font-bold">Import from Claude</h1>
+        <button
+          onClick={() => navigate('/')}
+          className="border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded text-sm"
+        >
+          Back to Gallery
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Finds the artifacts and code blocks in Claude conversations. Use the conversations.json file of a Claude
+        data export (Settings → Privacy → Export data), or paste a conversation below. The conversation's title
+        and date are kept with each artifact.
+      </p>
+
+      <div className="border rounded-lg p-4 mb-6 space-y-3">
+        <div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+          >
+            Choose conversations.json
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+        </div>
+
+        <div className="text-sm text-gray-500">or paste a conversation:</div>
+        <input
+          type="text"
+          value={transcriptTitle}
+          onChange={(e) => setTranscriptTitle(e.target.value)}
+          placeholder="Conversation title"
+          className={inputClassName}
+        />
+        <textarea
+          value={transcript}
+          onChange={(e) => setTranscript(e.target.value)}
+          rows={8}
+          placeholder="Paste the conversation, or a single conversation's JSON"
+          className={`${inputClassName} font-mono text-sm`}
+        />
+        <button
+          onClick={() => showCandidates(transcript, transcriptTitle)}
+          disabled={!transcript.trim()}
+          className="px-4 py-2 border rounded hover:bg-gray-100 disabled:opacity-50"
+        >
+          Find Artifacts
+        </button>
+      </div>
+
+      {error && <div className="bg-red-100 text-red-700 p-3 mb-4 rounded">{error}</div>}
+
+      {result && (
+        result.candidates.length === 0 ? (
+          <div className="text-center p-8 bg-gray-50 rounded-lg text-gray-600">
+            No artifacts or code blocks for the gallery were found
+            in {result.conversations} {result.conversations === 1 ? 'conversation' : 'conversations'}.
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-gray-700">
+                Found {result.candidates.length} in {conversations.size} of {result.conversations} {result.conversations === 1 ? 'conversation' : 'conversations'}
+              </p>
+              <div className="flex space-x-2 text-sm">
+                <button
+                  onClick={() => setSelected(new Set(result.candidates.map(candidate => candidate.key)))}
+                  className="text-blue-600 hover:underline"
+                >
+                  Select all
+                </button>
+                <button onClick={() => setSelected(new Set())} className="text-blue-600 hover:underline">
+                  Select none
+                </button>
+              </div>
+            </div>
+
+            {Array.from(conversations.values()).map(candidates => (
+              <div key={candidates[0].key} className="mb-4">
+                <h2 className="font-semibold mb-1">
+                  {candidates[0].source.conversation}
+                  {candidates[0].source.date && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {new Date(candidates[0].source.date).toLocaleDateString()}
+                    </span>
+                  )}
+                </h2>
+                <ul className="border rounded-lg divide-y">
+                  {candidates.map(edited).map(candidate => (
+                    <li key={candidate.key} className="p-3">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(candidate.key)}
+                          onChange={() => toggleSelected(candidate.key)}
+                          className="h-4 w-4 shrink-0"
+                          aria-label={`Import ${candidate.title}`}
+                        />
+                        <input
+                          type="text"
+                          value={candidate.title}
+                          onChange={(e) => setEdits(prev => ({ ...prev, [candidate.key]: { ...edited(candidate), title: e.target.value } }))}
+                          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                        <select
+                          value={candidate.type}
+                          onChange={(e) => setEdits(prev => ({
+                            ...prev,
+                            [candidate.key]: { ...edited(candidate), type: e.target.value as Artifact['type'] }
+                          }))}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+                        >
+                          {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                            <option key={type} value={type}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <details className="mt-1 ml-6 text-sm">
+                        <summary className="cursor-pointer text-gray-500">
+                          {candidate.origin === 'artifact' ? 'Artifact' : 'Code block'}
+                          {candidate.versions > 1 && `, last of ${candidate.versions} versions`}
+                          {!candidate.typeGiven && ', type detected from the code'}
+                          {` · ${candidate.code.split('\n').length} lines`}
+                        </summary>
+                        <pre className="mt-2 bg-gray-800 text-gray-200 p-3 rounded overflow-auto max-h-64 font-mono text-xs">
+                          <code>{candidate.code}</code>
+                        </pre>
+                      </details>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            <div className="border rounded-lg p-4 mt-6 flex flex-wrap items-end gap-3">
+              <label className="text-sm">
+                <span className="block font-medium text-gray-700 mb-1">Folder</span>
+                <select
+                  value={folder}
+                  onChange={(e) => setFolder(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">No folder</option>
+                  {allFolders.map(path => (
+                    <option key={path} value={path}>{path}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm flex-1 min-w-[12rem]">
+                <span className="block font-medium text-gray-700 mb-1">Tags (comma separated)</span>
+                <input
+                  type="text"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+              <button
+                onClick={handleCreate}
+                disabled={creating || selected.size === 0}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : `Create ${selected.size} ${selected.size === 1 ? 'Artifact' : 'Artifacts'}`}
+              </button>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { Compartment, EditorState, Transaction, type Text } from '@codemirror/state';
+import { EditorView, keymap, placeholder as placeholderText } from '@codemirror/view';
+import { indentWithTab } from '@codemirror/commands';
+import { javascript } from '@codemirror/lang-javascript';
+import { xml } from '@codemirror/lang-xml';
+import { html } from '@codemirror/lang-html';
+import { markdown } from '@codemirror/lang-markdown';
+import { lintGutter, setDiagnostics, type Diagnostic } from '@codemirror/lint';
+import type { Artifact } from '../lib/store';
+import type { CodeDiagnostic } from '../lib/codeDiagnostics';
+import { mermaidLanguage } from '../lib/mermaidLanguage';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Selects the language mode
+  type: Artifact['type'];
+  // Problems to mark in the gutter and underline in the text
+  diagnostics?: CodeDiagnostic[];
+  placeholder?: string;
+  className?: string;
+}
+
+const languageFor = (type: Artifact['type']) => {
+  switch (type) {
+    case 'react':
+      return javascript({ jsx: true, typescript: true });
+    case 'svg':
+      return xml();
+    case 'mermaid':
+      return mermaidLanguage;
+    case 'html':
+      return html();
+    case 'markdown':
+      return markdown();
+  }
+};
+
+// Convert line/column positions into document offsets, clamped to the text
+const toEditorDiagnostics = (doc: Text, diagnostics: CodeDiagnostic[]): Diagnostic[] =>
+  diagnostics.map(({ line, column, message, severity }) => {
+    const docLine = doc.line(Math.min(Math.max(line, 1), doc.lines));
+    const from = Math.min(docLine.from + Math.max(column - 1, 0), docLine.to);
+    return { from, to: Math.min(from + 1, docLine.to), message, severity };
+  });
+
+const noDiagnostics: CodeDiagnostic[] = [];
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '14px' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' },
+});
+
+// CodeMirror editor for artifact source, with syntax highlighting, line
+// numbers, search/replace (Ctrl/Cmd+F) and error markers
+export function CodeEditor({ value, onChange, type, diagnostics = noDiagnostics, placeholder = '', className = '' }: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const language = useRef(new Compartment()).current;
+  const placeholderCompartment = useRef(new Compartment()).current;
+  // Read from the update listener, which is only registered once
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // The view is created once, empty; the effects below fill in the props
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        extensions: [
+          basicSetup,
+          keymap.of([indentWithTab]),
+          language.of([]),
+          placeholderCompartment.of([]),
+          lintGutter(),
+          editorTheme,
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [language, placeholderCompartment]);
+
+  // Load the initial code and follow changes made outside the editor, e.g.
+  // restoring a revision. These are kept out of the undo history.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && value !== view.state.doc.toString()) {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: value },
+        annotations: Transaction.addToHistory.of(false),
+      });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: language.reconfigure(languageFor(type)) });
+  }, [type, language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: placeholderCompartment.reconfigure(placeholderText(placeholder)) });
+  }, [placeholder, placeholderCompartment]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view) {
+      view.dispatch(setDiagnostics(view.state, toEditorDiagnostics(view.state.doc, diagnostics)));
+    }
+  }, [diagnostics]);
+
+  return <div ref={containerRef} className={className} />;
+}
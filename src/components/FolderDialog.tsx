@@ -0,0 +1,215 @@
+import { useState, type FormEvent } from 'react';
+import { Folder } from 'lucide-react';
+import { useArtifactStore, type FolderDeleteMode } from '../lib/store';
+import {
+  FOLDER_COLORS,
+  folderIconClass,
+  folderName,
+  isInFolder,
+  joinFolderPath,
+  normalizeFolderPath,
+  parentFolderPath,
+  type FolderColor,
+  type FolderNode,
+} from '../lib/folders';
+
+interface FolderDialogProps {
+  // The folder to edit; a new folder is created when omitted
+  node?: FolderNode;
+  // Where a new folder goes by default ('' for the top level)
+  parentPath?: string;
+  // Called with the old and new path after an existing folder was renamed or moved
+  onSaved?: (oldPath: string, newPath: string) => void;
+  onClose: () => void;
+}
+
+// Create a folder, or rename, move and describe an existing one
+export function FolderDialog({ node, parentPath = '', onSaved, onClose }: FolderDialogProps) {
+  const { createFolder, updateFolder, renameFolder, moveFolder } = useArtifactStore();
+  const allFolders = useArtifactStore(state => state.getAllFolders());
+  const [name, setName] = useState(node?.name ?? '');
+  const [parent, setParent] = useState(node ? parentFolderPath(node.path) : parentPath);
+  const [description, setDescription] = useState(node?.folder?.description ?? '');
+  const [color, setColor] = useState<FolderColor | undefined>(node?.folder?.color);
+  const [error, setError] = useState<string | null>(null);
+
+  // A folder cannot be moved into itself or its subfolders
+  const parentOptions = allFolders.filter(path => !node || !isInFolder(path, node.path));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const newName = normalizeFolderPath(name);
+    if (!newName || newName.includes('/')) {
+      setError('Enter a folder name without "/"');
+      return;
+    }
+
+    const details = { description: description.trim() || undefined, color };
+    try {
+      if (!node) {
+        await createFolder(joinFolderPath(parent, newName), details);
+      } else {
+        const newPath = joinFolderPath(parent, newName);
+        if (newPath !== node.path && allFolders.includes(newPath)) {
+          throw new Error(`A folder named "${newPath}" already exists`);
+        }
+
+        let path = node.path;
+        if (newName !== node.name) {
+          await renameFolder(path, newName);
+          path = joinFolderPath(parentFolderPath(path), newName);
+        }
+        if (parent !== parentFolderPath(path)) {
+          await moveFolder(path, parent);
+          path = newPath;
+        }
+        if (details.description !== node.folder?.description || details.color !== node.folder?.color) {
+          await updateFolder(path, details);
+        }
+        if (path !== node.path) onSaved?.(node.path, path);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-xl font-bold mb-4">{node ? 'Edit Folder' : 'New Folder'}</h3>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Inside</label>
+        <select
+          value={parent}
+          onChange={(e) => setParent(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Top level</option>
+          {parentOptions.map(path => (
+            <option key={path} value={path}>{path}</option>
+          ))}
+        </select>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+        <div className="flex flex-wrap gap-1 mb-4">
+          <button
+            type="button"
+            onClick={() => setColor(undefined)}
+            className={`p-1.5 rounded border ${color === undefined ? 'border-gray-500 bg-gray-100' : 'border-transparent hover:bg-gray-100'}`}
+            title="Default"
+          >
+            <Folder size={18} className={folderIconClass()} />
+          </button>
+          {FOLDER_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setColor(option)}
+              className={`p-1.5 rounded border ${color === option ? 'border-gray-500 bg-gray-100' : 'border-transparent hover:bg-gray-100'}`}
+              title={option}
+            >
+              <Folder size={18} className={folderIconClass(option)} fill="currentColor" />
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+        <div className="flex space-x-3 justify-end">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-100">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">
+            {node ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+interface DeleteFolderDialogProps {
+  node: FolderNode;
+  onDeleted?: (path: string) => void;
+  onClose: () => void;
+}
+
+// Delete a folder, either moving its contents up a level or to the trash
+export function DeleteFolderDialog({ node, onDeleted, onClose }: DeleteFolderDialogProps) {
+  const deleteFolder = useArtifactStore(state => state.deleteFolder);
+  const [mode, setMode] = useState<FolderDeleteMode>('move-to-parent');
+  const isEmpty = node.totalCount === 0 && node.children.length === 0;
+  const parent = parentFolderPath(node.path);
+
+  const handleDelete = async () => {
+    await deleteFolder(node.path, mode);
+    onDeleted?.(node.path);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-xl font-bold mb-4">Delete Folder</h3>
+        {isEmpty ? (
+          <p className="mb-6">
+            Delete the empty folder <span className="font-semibold">{node.name}</span>?
+          </p>
+        ) : (
+          <>
+            <p className="mb-3">
+              <span className="font-semibold">{node.name}</span> contains{' '}
+              {node.totalCount} {node.totalCount === 1 ? 'artifact' : 'artifacts'}
+              {node.children.length > 0 && ` and ${node.children.length} ${node.children.length === 1 ? 'subfolder' : 'subfolders'}`}.
+              What should happen to them?
+            </p>
+            <label className="flex items-start mb-2">
+              <input
+                type="radio"
+                checked={mode === 'move-to-parent'}
+                onChange={() => setMode('move-to-parent')}
+                className="mt-1 mr-2"
+              />
+              <span>Move them to {parent ? <span className="font-semibold">{folderName(parent)}</span> : 'the top level'}</span>
+            </label>
+            <label className="flex items-start mb-6">
+              <input
+                type="radio"
+                checked={mode === 'trash'}
+                onChange={() => setMode('trash')}
+                className="mt-1 mr-2"
+              />
+              <span>Move the artifacts to the trash, and delete the subfolders</span>
+            </label>
+          </>
+        )}
+        <div className="flex space-x-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-100">
+            Cancel
+          </button>
+          <button onClick={handleDelete} className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600">
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { ChevronRight, Folder, FolderOpen, Home, Pencil, Plus, Trash2 } from 'lucide-react';
+import { folderIconClass, type FolderNode } from '../lib/folders';
+
+interface FolderTreeProps {
+  tree: FolderNode[];
+  // Path of the folder shown in the gallery, '' for the top level
+  currentFolder: string;
+  onNavigate: (path: string) => void;
+  // Create a folder inside the given one ('' for the top level)
+  onCreate: (parentPath: string) => void;
+  onEdit: (node: FolderNode) => void;
+  onDelete: (node: FolderNode) => void;
+}
+
+// Collapsible sidebar tree of all folders
+export function FolderTree({ tree, currentFolder, onNavigate, onCreate, onEdit, onDelete }: FolderTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Keep the current folder visible
+  useEffect(() => {
+    if (!currentFolder) return;
+    setExpanded(previous => {
+      const next = new Set(previous);
+      const parts = currentFolder.split('/');
+      parts.slice(0, -1).forEach((_, index) => next.add(parts.slice(0, index + 1).join('/')));
+      return next;
+    });
+  }, [currentFolder]);
+
+  const toggle = (path: string) => {
+    setExpanded(previous => {
+      const next = new Set(previous);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isOpen = expanded.has(node.path);
+    const isCurrent = node.path === currentFolder;
+    const Icon = isOpen && node.children.length > 0 ? FolderOpen : Folder;
+
+    return (
+      <li key={node.path}>
+        <div
+          className={`group flex items-center rounded pr-1 text-sm ${isCurrent ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100'}`}
+          style={{ paddingLeft: depth * 12 }}
+          title={node.folder?.description || node.path}
+        >
+          <button
+            onClick={() => toggle(node.path)}
+            className={`p-1 text-gray-400 hover:text-gray-700 ${node.children.length > 0 ? '' : 'invisible'}`}
+            aria-label={isOpen ? `Collapse ${node.name}` : `Expand ${node.name}`}
+          >
+            <ChevronRight size={14} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+          </button>
+          <button onClick={() => onNavigate(node.path)} className="flex flex-1 items-center min-w-0 py-1 text-left">
+            <Icon size={16} className={`mr-1.5 shrink-0 ${folderIconClass(node.folder?.color)}`} />
+            <span className={`truncate ${isCurrent ? 'font-semibold' : ''}`}>{node.name}</span>
+            {node.totalCount > 0 && (
+              <span className="ml-1.5 text-xs text-gray-400">{node.totalCount}</span>
+            )}
+          </button>
+          <div className="hidden group-hover:flex group-focus-within:flex items-center">
+            <button onClick={() => onCreate(node.path)} className="p-1 text-gray-400 hover:text-gray-700" title="New subfolder">
+              <Plus size={14} />
+            </button>
+            <button onClick={() => onEdit(node)} className="p-1 text-gray-400 hover:text-gray-700" title="Edit folder">
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => onDelete(node)} className="p-1 text-gray-400 hover:text-red-600" title="Delete folder">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+        {isOpen && node.children.length > 0 && (
+          <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav aria-label="Folders">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Folders</h2>
+        <button onClick={() => onCreate('')} className="p-1 rounded text-gray-500 hover:bg-gray-100" title="New folder">
+          <Plus size={16} />
+        </button>
+      </div>
+      <button
+        onClick={() => onNavigate('')}
+        className={`flex w-full items-center rounded px-1 py-1 text-sm ${currentFolder ? 'hover:bg-gray-100' : 'bg-blue-100 text-blue-900 font-semibold'}`}
+      >
+        <Home size={16} className="mr-1.5 ml-5 text-gray-500" />
+        Home
+      </button>
+      <ul>{tree.map(node => renderNode(node, 0))}</ul>
+      {tree.length === 0 && (
+        <p className="px-1 py-2 text-xs text-gray-500">No folders yet</p>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import type { ImportPreview, ImportResolution } from '../lib/store';
+
+interface ImportDialogProps {
+  preview: ImportPreview;
+  onConfirm: (resolutions: Record<string, ImportResolution>) => void;
+  onCancel: () => void;
+}
+
+const resolutionLabels: Record<ImportResolution, string> = {
+  merge: 'Merge (keep newest, combine tags and history)',
+  overwrite: 'Overwrite existing',
+  'keep-both': 'Keep both',
+  skip: 'Skip',
+};
+
+export function ImportDialog({ preview, onConfirm, onCancel }: ImportDialogProps) {
+  const conflictIds = Object.keys(preview.conflicts);
+  const [resolutions, setResolutions] = useState<Record<string, ImportResolution>>(() =>
+    Object.fromEntries(conflictIds.map(id => [id, 'merge' as const]))
+  );
+
+  const newCount = preview.artifacts.length - conflictIds.length;
+
+  const applyToAll = (resolution: ImportResolution) => {
+    setResolutions(Object.fromEntries(conflictIds.map(id => [id, resolution])));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <h3 className="text-xl font-bold mb-2">Import Artifacts</h3>
+        <p className="text-gray-600 mb-4">
+          {preview.artifacts.length} {preview.artifacts.length === 1 ? 'artifact' : 'artifacts'} found:{' '}
+          {newCount} new, {conflictIds.length} already in your gallery.
+        </p>
+
+        {preview.issues.length > 0 && (
+          <details className="bg-red-50 border border-red-200 text-red-800 rounded p-3 mb-4 text-sm">
+            <summary className="cursor-pointer font-medium">
+              {preview.issues.length} {preview.issues.length === 1 ? 'entry is' : 'entries are'} invalid and will be skipped
+            </summary>
+            <ul className="mt-2 space-y-1 max-h-32 overflow-auto">
+              {preview.issues.map(issue => (
+                <li key={issue.index}>
+                  <span className="font-medium">#{issue.index + 1}{issue.title ? ` "${issue.title}"` : ''}:</span>{' '}
+                  {issue.problems.join('; ')}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {conflictIds.length > 0 && (
+          <div className="flex items-center justify-end mb-2 text-sm">
+            <label className="mr-2 text-gray-700">Apply to all conflicts:</label>
+            <select
+              defaultValue=""
+              onChange={(e) => e.target.value && applyToAll(e.target.value as ImportResolution)}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              <option value="">Choose...</option>
+              {Object.entries(resolutionLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <ul className="border rounded divide-y overflow-auto flex-grow mb-4">
+          {preview.artifacts.map(artifact => {
+            const conflict = preview.conflicts[artifact.id];
+            return (
+              <li key={artifact.id} className="p-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{artifact.title || 'Untitled Artifact'}</div>
+                  <div className="text-xs text-gray-500">
+                    {artifact.type}
+                    {artifact.folder && ` · 📁 ${artifact.folder}`}
+                    {' · updated '}{new Date(artifact.updatedAt).toLocaleDateString()}
+                  </div>
+                  {conflict && (
+                    <div className="text-xs text-amber-700 mt-0.5">
+                      {conflict.reason === 'id'
+                        ? 'Same artifact already exists'
+                        : `Title matches existing "${conflict.existing.title}"`}
+                      {' (updated '}{new Date(conflict.existing.updatedAt).toLocaleDateString()})
+                      {conflict.existing.deletedAt && ' · in the trash; merging or overwriting restores it'}
+                    </div>
+                  )}
+                </div>
+
+                {conflict ? (
+                  <select
+                    value={resolutions[artifact.id]}
+                    onChange={(e) => setResolutions({
+                      ...resolutions,
+                      [artifact.id]: e.target.value as ImportResolution
+                    })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm flex-shrink-0"
+                  >
+                    {Object.entries(resolutionLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded flex-shrink-0">New</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex space-x-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(resolutions)}
+            disabled={preview.artifacts.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
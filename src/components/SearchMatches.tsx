@@ -0,0 +1,58 @@
+import type { ReactNode } from 'react';
+import type { MatchRange, SearchResult } from '../lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: MatchRange[];
+}
+
+// Text with the given ranges highlighted
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+interface SearchMatchesProps {
+  result: SearchResult;
+}
+
+// The matching lines of code of a search result
+export function SearchMatches({ result }: SearchMatchesProps) {
+  if (result.codeMatches.length === 0) return null;
+  const more = result.codeMatchCount - result.codeMatches.length;
+
+  return (
+    <div className="mb-2 border rounded bg-gray-50 font-mono text-xs overflow-hidden">
+      {result.codeMatches.map(match => (
+        <div key={match.line} className="flex border-b last:border-b-0">
+          <span className="w-10 shrink-0 px-2 py-1 text-right text-gray-400 select-none border-r">
+            {match.line}
+          </span>
+          <span className="px-2 py-1 whitespace-pre overflow-hidden text-ellipsis text-gray-800">
+            <HighlightedText text={match.text} ranges={match.ranges} />
+          </span>
+        </div>
+      ))}
+      {more > 0 && (
+        <div className="px-2 py-1 text-gray-500 bg-white">
+          {more} more matching {more === 1 ? 'line' : 'lines'}
+        </div>
+      )}
+    </div>
+  );
+}
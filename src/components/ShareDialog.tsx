@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import {
+  encodeSharePayload,
+  getShareUrl,
+  SHARE_URL_MAX_LENGTH,
+  SHARE_URL_WARNING_LENGTH,
+  type SharedArtifact,
+} from '../lib/share';
+
+interface ShareDialogProps {
+  artifact: SharedArtifact;
+  onClose: () => void;
+}
+
+// A link that contains the whole artifact, for sending to someone else
+export function ShareDialog({ artifact, onClose }: ShareDialogProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    encodeSharePayload(artifact)
+      .then(payload => {
+        if (!cancelled) setUrl(getShareUrl(payload));
+      })
+      .catch(err => {
+        console.error('Failed to create share link:', err);
+        if (!cancelled) setError('Failed to create the share link');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artifact]);
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4">
+        <h3 className="text-xl font-bold mb-2">Share Artifact</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          The link contains the artifact itself, so anyone with it can view it and save it to their own gallery.
+          Only the current version is shared; its history and folder are not.
+        </p>
+
+        {error ? (
+          <div className="bg-red-100 text-red-700 p-3 mb-4 rounded">{error}</div>
+        ) : url ? (
+          <>
+            <div className="flex space-x-2 mb-2">
+              <input
+                type="text"
+                value={url}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              />
+              <button
+                onClick={handleCopy}
+                disabled={url.length > SHARE_URL_MAX_LENGTH}
+                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+              >
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">{url.length.toLocaleString()} characters</p>
+
+            {url.length > SHARE_URL_MAX_LENGTH ? (
+              <div className="bg-red-100 text-red-700 p-3 mb-4 rounded text-sm">
+                This artifact is too large to share as a link; browsers may refuse to open it.
+                Use Export in the gallery to send it as a file instead.
+              </div>
+            ) : url.length > SHARE_URL_WARNING_LENGTH && (
+              <div className="bg-amber-50 border border-amber-300 text-amber-900 p-3 mb-4 rounded text-sm">
+                This link is long. Some chat apps and email clients cut off long links, which breaks them.
+                If it does not open for the recipient, send an exported file instead.
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="flex items-center justify-center p-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            <span className="ml-2">Creating link...</span>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-100">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
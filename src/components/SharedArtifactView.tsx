@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { decodeSharePayload, type SharedArtifact } from '../lib/share';
+import { ArtifactRunner } from './ArtifactRunner';
+
+// Opens an artifact from a share link (/share/#<payload>)
+export function SharedArtifactView() {
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const [artifact, setArtifact] = useState<SharedArtifact | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setArtifact(null);
+    setError('');
+
+    const payload = hash.slice(1);
+    if (!payload) {
+      setError('This share link is empty. Ask for the whole link to be sent again.');
+      return;
+    }
+
+    decodeSharePayload(payload)
+      .then(decoded => {
+        if (!cancelled) setArtifact(decoded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to open the share link');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  if (error) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+        >
+          Back to Gallery
+        </button>
+      </div>
+    );
+  }
+
+  if (!artifact) {
+    return (
+      <div className="p-4 max-w-4xl mx-auto">
+        <div className="flex items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          <span className="ml-2">Opening shared artifact...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return <ArtifactRunner shared={artifact} />;
+}
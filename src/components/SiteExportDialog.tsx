@@ -0,0 +1,161 @@
+import { useState, type FormEvent } from 'react';
+import { useArtifactStore } from '../lib/store';
+import { folderName } from '../lib/folders';
+import {
+  artifactsInScope,
+  exportStaticSite,
+  type SiteExportProgress,
+  type SiteExportResult,
+  type SiteScope,
+} from '../lib/siteExport';
+
+interface SiteExportDialogProps {
+  // Folder the gallery is showing, exported by default ('' for the top level)
+  currentFolder: string;
+  onClose: () => void;
+}
+
+// Download a read-only static site of a folder, a tag or the whole gallery
+export function SiteExportDialog({ currentFolder, onClose }: SiteExportDialogProps) {
+  const artifacts = useArtifactStore(state => state.artifacts);
+  const allFolders = useArtifactStore(state => state.getAllFolders());
+  const allTags = useArtifactStore(state => state.getAllTags());
+  const [scopeType, setScopeType] = useState<SiteScope['type']>(currentFolder ? 'folder' : 'all');
+  const [folder, setFolder] = useState(currentFolder || allFolders[0] || '');
+  const [tag, setTag] = useState(allTags[0] || '');
+  const [title, setTitle] = useState(currentFolder ? folderName(currentFolder) : 'Artifacts Gallery');
+  const [progress, setProgress] = useState<SiteExportProgress | null>(null);
+  const [result, setResult] = useState<SiteExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scope: SiteScope = scopeType === 'folder'
+    ? { type: 'folder', path: folder }
+    : scopeType === 'tag' ? { type: 'tag', tag } : { type: 'all' };
+  const count = artifactsInScope(artifacts, scope).length;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setResult(null);
+    setProgress({ done: 0, total: count });
+    try {
+      const site = await exportStaticSite(scope, title.trim() || 'Artifacts Gallery', setProgress);
+      const url = URL.createObjectURL(site.zip);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = site.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setResult(site);
+    } catch (err) {
+      console.error('Error exporting site:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const exporting = progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-xl font-bold mb-2">Export Static Site</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          A zip with a read-only website: an index of folders, tags and previews, and a page per artifact
+          with its output and code. Open its index.html or upload it to any web host.
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Artifacts</label>
+        <select
+          value={scopeType}
+          onChange={(e) => setScopeType(e.target.value as SiteScope['type'])}
+          disabled={exporting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="all">Whole gallery</option>
+          <option value="folder" disabled={allFolders.length === 0}>A folder</option>
+          <option value="tag" disabled={allTags.length === 0}>A tag</option>
+        </select>
+
+        {scopeType === 'folder' && (
+          <select
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            disabled={exporting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {allFolders.map(path => (
+              <option key={path} value={path}>{path}</option>
+            ))}
+          </select>
+        )}
+
+        {scopeType === 'tag' && (
+          <select
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            disabled={exporting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {allTags.map(option => (
+              <option key={option} value={option}>#{option}</option>
+            ))}
+          </select>
+        )}
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Site title</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={exporting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+
+        <p className="text-sm text-gray-500 mb-4">
+          {count} {count === 1 ? 'artifact' : 'artifacts'} (subfolders included; the trash is left out)
+        </p>
+
+        {progress && (
+          <p className="mb-3 text-sm text-gray-700">
+            Rendering artifacts... {progress.done} / {progress.total}
+          </p>
+        )}
+
+        {result && (
+          <div className={`p-3 mb-3 rounded text-sm ${result.failures.length > 0 ? 'bg-amber-50 border border-amber-300 text-amber-900' : 'bg-green-100 text-green-800'}`}>
+            <p>Exported {result.artifactCount} {result.artifactCount === 1 ? 'artifact' : 'artifacts'} to {result.fileName}.</p>
+            {result.failures.length > 0 && (
+              <>
+                <p className="mt-1">These could not be rendered; their pages show the error and the code:</p>
+                <ul className="list-disc pl-5 mt-1">
+                  {result.failures.map((failure, i) => (
+                    <li key={i}><span className="font-medium">{failure.title}</span>: {failure.message}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+        <div className="flex space-x-3 justify-end">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-100">
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            type="submit"
+            disabled={exporting || count === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            {exporting ? 'Exporting...' : 'Download Zip'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
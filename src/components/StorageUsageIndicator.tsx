@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Database } from 'lucide-react';
+import { useArtifactStore } from '../lib/store';
+import type { StorageUsage } from '../lib/storage';
+
+const backendLabels: Record<StorageUsage['backend'], string> = {
+  indexedDB: 'IndexedDB',
+  localStorage: 'Local storage',
+  folder: 'Folder',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Shows where artifacts are stored and how much of the available space they use
+export function StorageUsageIndicator() {
+  const artifacts = useArtifactStore(state => state.artifacts);
+  const getStorageUsage = useArtifactStore(state => state.getStorageUsage);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  // Re-estimate whenever the artifacts change
+  useEffect(() => {
+    let cancelled = false;
+    getStorageUsage()
+      .then(result => !cancelled && setUsage(result))
+      .catch(err => console.error('Error estimating storage usage:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [artifacts, getStorageUsage]);
+
+  if (!usage) return null;
+
+  const percent = usage.quotaBytes ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="flex items-center text-xs text-gray-500" title="Space used by your artifacts">
+      <Database size={14} className="mr-1.5 flex-shrink-0" />
+      <span className="whitespace-nowrap">
+        {backendLabels[usage.backend]}{usage.location && ` ${usage.location}`} · {formatBytes(usage.usedBytes)} used
+        {usage.quotaBytes !== undefined && ` of ${formatBytes(usage.quotaBytes)}`}
+      </span>
+      {usage.quotaBytes !== undefined && (
+        <div className="ml-2 w-24 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${percent > 90 ? 'bg-red-500' : percent > 75 ? 'bg-amber-500' : 'bg-blue-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useArtifactStore, type Artifact } from '../lib/store';
+import {
+  CAPTURE_WIDTH,
+  captureElement,
+  captureHtmlDocument,
+  captureSvgElement,
+  needsThumbnail,
+  thumbnailHash
+} from '../lib/thumbnails';
+import { SVGRenderer } from './renderers/SVGRenderer';
+import { MermaidRenderer } from './renderers/MermaidRenderer';
+import { MarkdownRenderer } from './renderers/MarkdownRenderer';
+import { ReactRenderer } from './renderers/ReactRenderer';
+
+// Artifacts that have not rendered by then are given up on
+const CAPTURE_TIMEOUT = 15000;
+
+interface ThumbnailCaptureProps {
+  artifact: Artifact;
+  onDone: (dataUrl: string | null) => void;
+}
+
+// Renders one artifact offscreen with its usual renderer and captures it
+function ThumbnailCapture({ artifact, onDone }: ThumbnailCaptureProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+  const finishedRef = useRef(false);
+
+  const finish = useCallback((dataUrl: string | null) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    onDoneRef.current(dataUrl);
+  }, []);
+
+  const capture = useCallback(async () => {
+    const content = contentRef.current;
+    if (!content || finishedRef.current) return;
+
+    try {
+      if (artifact.type === 'svg' || artifact.type === 'mermaid') {
+        const svg = content.querySelector<SVGSVGElement>('.svg-container svg, .mermaid-container svg');
+        finish(svg ? await captureSvgElement(svg) : null);
+      } else {
+        finish(await captureElement(content));
+      }
+    } catch (err) {
+      console.error('Error capturing thumbnail:', err);
+      finish(null);
+    }
+  }, [artifact.type, finish]);
+
+  // HTML pages are captured from their markup, without running them
+  useEffect(() => {
+    if (artifact.type !== 'html') return;
+    captureHtmlDocument(artifact.code).then(finish, err => {
+      console.error('Error capturing thumbnail:', err);
+      finish(null);
+    });
+  }, [artifact.type, artifact.code, finish]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => finish(null), CAPTURE_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [finish]);
+
+  return (
+    <div aria-hidden="true" className="fixed top-0 pointer-events-none" style={{ left: -10000, width: CAPTURE_WIDTH }}>
+      <div ref={contentRef} className="bg-white p-4">
+        {artifact.type === 'svg' && <SVGRenderer code={artifact.code} onRendered={capture} />}
+        {artifact.type === 'mermaid' && <MermaidRenderer code={artifact.code} onRendered={capture} />}
+        {artifact.type === 'markdown' && <MarkdownRenderer code={artifact.code} onRendered={capture} />}
+        {artifact.type === 'react' && <ReactRenderer code={artifact.code} onCapture={finish} />}
+      </div>
+    </div>
+  );
+}
+
+interface ThumbnailGeneratorProps {
+  // Artifacts in display order; the first ones get their thumbnails first
+  artifacts: Artifact[];
+}
+
+// Generates missing and outdated thumbnails in the background, one at a time
+export function ThumbnailGenerator({ artifacts }: ThumbnailGeneratorProps) {
+  const loadArtifactContent = useArtifactStore(state => state.loadArtifactContent);
+  const setThumbnail = useArtifactStore(state => state.setThumbnail);
+  const [current, setCurrent] = useState<Artifact | null>(null);
+  // Bumped to look for the next artifact when one turned out not to need a thumbnail
+  const [skipped, setSkipped] = useState(0);
+  const busy = useRef(false);
+  // Versions already tried this session, so that failures are not retried in a loop
+  const attempted = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (busy.current) return;
+
+    const next = artifacts.find(artifact =>
+      needsThumbnail(artifact) && !attempted.current.has(`${artifact.id}@${artifact.updatedAt}`)
+    );
+    if (!next) return;
+
+    busy.current = true;
+    attempted.current.add(`${next.id}@${next.updatedAt}`);
+
+    const start = async () => {
+      await loadArtifactContent([next.id]);
+      const artifact = useArtifactStore.getState().artifacts.find(a => a.id === next.id);
+      if (artifact && artifact.code.trim() && needsThumbnail(artifact)) {
+        setCurrent(artifact);
+      } else {
+        busy.current = false;
+        setSkipped(count => count + 1);
+      }
+    };
+
+    start().catch(err => {
+      console.error('Error loading artifact for its thumbnail:', err);
+      busy.current = false;
+      setSkipped(count => count + 1);
+    });
+  }, [artifacts, current, skipped, loadArtifactContent]);
+
+  const handleDone = (dataUrl: string | null) => {
+    if (current && dataUrl) {
+      setThumbnail(current.id, { codeHash: thumbnailHash(current.code), dataUrl });
+    }
+    busy.current = false;
+    setCurrent(null);
+  };
+
+  return current ? <ThumbnailCapture key={`${current.id}@${current.updatedAt}`} artifact={current} onDone={handleDone} /> : null;
+}
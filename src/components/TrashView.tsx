@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useArtifactStore, TRASH_RETENTION_DAYS } from '../lib/store';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days until a trashed artifact is deleted for good
+const daysLeft = (deletedAt: string) =>
+  Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - (Date.now() - Date.parse(deletedAt)) / DAY));
+
+export function TrashView() {
+  const { artifacts, loadArtifacts, restoreArtifacts, purgeArtifacts, emptyTrash } = useArtifactStore();
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    // Loading also purges artifacts that have been in the trash too long
+    loadArtifacts().finally(() => setLoading(false));
+  }, [loadArtifacts]);
+
+  // Most recently deleted first
+  const trashed = useMemo(() =>
+    artifacts
+      .filter(artifact => artifact.deletedAt)
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!)),
+    [artifacts]
+  );
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restoreArtifacts([id]);
+    } catch (err) {
+      console.error('Error restoring artifact:', err);
+      alert('Failed to restore artifact');
+    }
+  };
+
+  const handlePurge = async (id: string, title: string) => {
+    if (!confirm(`Delete "${title || 'Untitled Artifact'}" permanently?`)) {
+      return;
+    }
+
+    try {
+      await purgeArtifacts([id]);
+    } catch (err) {
+      console.error('Error deleting artifact:', err);
+      alert('Failed to delete artifact');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const label = trashed.length === 1 ? 'the artifact' : `all ${trashed.length} artifacts`;
+    if (!confirm(`Delete ${label} in the trash permanently?`)) {
+      return;
+    }
+
+    try {
+      await emptyTrash();
+    } catch (err) {
+      console.error('Error emptying trash:', err);
+      alert('Failed to empty the trash');
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-4xl mx-auto">
+      <div className="flex justify-between items-center mb-4">
+        <h1 className="text-2xl font-bold">Trash</h1>
+        <div className="flex space-x-2">
+          {trashed.length > 0 && (
+            <button
+              onClick={handleEmptyTrash}
+              className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Empty Trash
+            </button>
+          )}
+          <button
+            onClick={() => navigate('/')}
+            className="border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded text-sm"
+          >
+            Back to Gallery
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Deleted artifacts stay here for {TRASH_RETENTION_DAYS} days before they are deleted permanently.
+        Press Ctrl+Z (Cmd+Z on Mac) to undo a delete right away.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          <span className="ml-2">Loading trash...</span>
+        </div>
+      ) : trashed.length > 0 ? (
+        <ul className="border rounded-lg divide-y">
+          {trashed.map(artifact => (
+            <li key={artifact.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <Link to={`/view/${artifact.id}`} className="font-semibold hover:underline">
+                  {artifact.title || 'Untitled Artifact'}
+                </Link>
+                <div className="text-sm text-gray-500">
+                  {artifact.folder && <span className="mr-3">📁 {artifact.folder}</span>}
+                  Deleted {new Date(artifact.deletedAt!).toLocaleDateString()}
+                  {' · '}
+                  {daysLeft(artifact.deletedAt!) === 1 ? 'removed in 1 day' : `removed in ${daysLeft(artifact.deletedAt!)} days`}
+                </div>
+              </div>
+              <div className="flex shrink-0 space-x-2">
+                <button
+                  onClick={() => handleRestore(artifact.id)}
+                  className="flex items-center border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded text-sm"
+                >
+                  <RotateCcw size={14} className="mr-1" />
+                  Restore
+                </button>
+                <button
+                  onClick={() => handlePurge(artifact.id, artifact.title)}
+                  className="flex items-center border border-red-300 text-red-700 hover:bg-red-50 px-3 py-1 rounded text-sm"
+                >
+                  <Trash2 size={14} className="mr-1" />
+                  Delete Forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-12 border rounded-lg bg-gray-50 text-gray-600">
+          The trash is empty
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { useArtifactStore } from '../lib/store';
+
+// How long the notice of the last change stays up
+const NOTICE_DURATION = 6000;
+
+interface Notice {
+  text: string;
+  // What the notice's button does
+  action: 'undo' | 'redo';
+}
+
+// Fields where Ctrl+Z belongs to the text being edited
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || !!target.closest('.cm-editor'));
+
+// App-wide undo and redo of store changes, with Ctrl+Z / Ctrl+Shift+Z (or
+// Ctrl+Y) and a notice after each undoable change
+export function UndoManager() {
+  const [notice, setNotice] = useState<Notice | null>(null);
+  // Set while undoing or redoing, which must not show up as a new change
+  const applying = useRef(false);
+
+  const undo = () => {
+    applying.current = true;
+    const label = useArtifactStore.getState().undo();
+    applying.current = false;
+    if (label) setNotice({ text: `Undone: ${label}`, action: 'redo' });
+  };
+
+  const redo = () => {
+    applying.current = true;
+    const label = useArtifactStore.getState().redo();
+    applying.current = false;
+    if (label) setNotice({ text: `Redone: ${label}`, action: 'undo' });
+  };
+
+  // Announce new changes
+  useEffect(() => useArtifactStore.subscribe((state, previous) => {
+    if (applying.current || state.undoStack === previous.undoStack) return;
+    const entry = state.undoStack[state.undoStack.length - 1];
+    if (entry) setNotice({ text: entry.label, action: 'undo' });
+  }), []);
+
+  const undoRef = useRef(undo);
+  undoRef.current = undo;
+  const redoRef = useRef(redo);
+  redoRef.current = redo;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  if (!notice) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-gray-800 text-white rounded-lg shadow-lg pl-4 pr-2 py-2 text-sm"
+    >
+      <span>{notice.text}</span>
+      <button
+        onClick={notice.action === 'undo' ? undo : redo}
+        className="px-2 py-1 rounded font-medium text-blue-200 hover:bg-gray-700"
+      >
+        {notice.action === 'undo' ? 'Undo' : 'Redo'}
+      </button>
+      <button onClick={() => setNotice(null)} className="p-1 rounded hover:bg-gray-700" title="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Terminal, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import type { ConsoleEntry, ConsoleLevel } from '../../lib/sandboxProtocol';
+
+interface ArtifactConsoleProps {
+  entries: ConsoleEntry[];
+  // Artifact source, used to show the line an entry points to
+  code: string;
+  onClear: () => void;
+}
+
+const levelStyles: Record<ConsoleLevel, string> = {
+  log: 'text-gray-800',
+  info: 'text-blue-800',
+  debug: 'text-gray-500',
+  warn: 'bg-amber-50 text-amber-900',
+  error: 'bg-red-50 text-red-800',
+};
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+// Line of the artifact source with its number, e.g. for an error location
+export function SourceLine({ code, line }: { code: string; line: number }) {
+  const text = code.split('\n')[line - 1];
+  if (text === undefined) return null;
+
+  return (
+    <pre className="font-mono text-xs bg-white bg-opacity-60 border rounded px-2 py-1 mt-1 overflow-x-auto">
+      <span className="text-gray-400 select-none mr-2">{line}</span>
+      {text}
+    </pre>
+  );
+}
+
+// Console output of the running artifact
+export function ArtifactConsole({ entries, code, onClear }: ArtifactConsoleProps) {
+  const [open, setOpen] = useState(false);
+  const errorCount = entries.filter(entry => entry.level === 'error').length;
+  const warningCount = entries.filter(entry => entry.level === 'warn').length;
+
+  return (
+    <div className="border rounded mt-3 text-sm">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50">
+        <button onClick={() => setOpen(!open)} className="flex items-center text-gray-700 hover:text-gray-900">
+          {open ? <ChevronDown size={14} className="mr-1" /> : <ChevronRight size={14} className="mr-1" />}
+          <Terminal size={14} className="mr-1.5" />
+          Console
+          <span className="ml-2 text-xs text-gray-500">{entries.length}</span>
+          {errorCount > 0 && (
+            <span className="ml-2 text-xs bg-red-100 text-red-800 px-1.5 rounded">{errorCount} {errorCount === 1 ? 'error' : 'errors'}</span>
+          )}
+          {warningCount > 0 && (
+            <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-1.5 rounded">{warningCount} {warningCount === 1 ? 'warning' : 'warnings'}</span>
+          )}
+        </button>
+        {open && entries.length > 0 && (
+          <button onClick={onClear} className="flex items-center text-xs text-gray-500 hover:text-gray-800" title="Clear console">
+            <Trash2 size={12} className="mr-1" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {open && (
+        entries.length === 0 ? (
+          <p className="px-3 py-2 text-gray-500 text-xs">Nothing logged yet.</p>
+        ) : (
+          <ul className="max-h-64 overflow-auto divide-y font-mono text-xs">
+            {entries.map((entry, index) => (
+              <li key={index} className={`px-3 py-1 ${levelStyles[entry.level]}`}>
+                <div className="flex gap-2">
+                  <span className="text-gray-400 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                  <span className="whitespace-pre-wrap break-all flex-grow">{entry.message}</span>
+                  {entry.line !== undefined && (
+                    <span className="text-gray-500 flex-shrink-0">line {entry.line}</span>
+                  )}
+                </div>
+                {entry.stack && (
+                  <details className="mt-0.5">
+                    <summary className="cursor-pointer text-gray-500">Stack trace</summary>
+                    {entry.line !== undefined && <SourceLine code={code} line={entry.line} />}
+                    <pre className="whitespace-pre-wrap mt-1">{entry.stack}</pre>
+                  </details>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+
+interface ArtifactErrorBoundaryProps {
+  children: React.ReactNode;
+  onError: (error: unknown, componentStack?: string) => void;
+  // Remount the artifact with fresh state
+  onReset: () => void;
+}
+
+interface ArtifactErrorBoundaryState {
+  error: unknown;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Catches errors thrown while rendering an artifact, so that a crash leaves a
+// message with a way to recover instead of an empty preview
+export class ArtifactErrorBoundary extends React.Component<ArtifactErrorBoundaryProps, ArtifactErrorBoundaryState> {
+  state: ArtifactErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): ArtifactErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: unknown, info: React.ErrorInfo) {
+    this.props.onError(error, info.componentStack ?? undefined);
+  }
+
+  render() {
+    if (this.state.error === null) {
+      return this.props.children;
+    }
+
+    return (
+      <div className="m-4 bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm">
+        <p className="font-semibold mb-1">The artifact crashed while rendering</p>
+        <p className="font-mono whitespace-pre-wrap mb-3">{errorMessage(this.state.error)}</p>
+        <button
+          onClick={this.props.onReset}
+          className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+        >
+          Reset
+        </button>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { isSandboxMessage, withResizeScript } from '../../lib/sandboxProtocol';
+
+interface HTMLRendererProps {
+  code: string;
+  className?: string;
+}
+
+// Renders a standalone HTML document, with its inline scripts and styles, in a
+// sandboxed iframe
+export function HTMLRenderer({ code, className = '' }: HTMLRendererProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [height, setHeight] = useState(150);
+  const srcDoc = useMemo(() => withResizeScript(code), [code]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isSandboxMessage(event.data)) {
+        return;
+      }
+      if (event.data.type === 'resize') {
+        setHeight(Math.max(event.data.height, 50));
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  return (
+    <div className={`html-renderer ${className}`}>
+      {/* No allow-same-origin: the page gets an opaque origin and cannot reach the gallery */}
+      <iframe
+        ref={iframeRef}
+        srcDoc={srcDoc}
+        title="HTML artifact"
+        sandbox="allow-scripts allow-modals allow-forms allow-popups"
+        className="w-full border rounded"
+        style={{ height }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useRef } from 'react';
+import 'highlight.js/styles/github.css';
+import { renderMarkdown } from '../../lib/markdown';
+import { MermaidRenderer } from './MermaidRenderer';
+
+interface MarkdownRendererProps {
+  code: string;
+  className?: string;
+  // Called once the document and all its diagrams are shown
+  onRendered?: () => void;
+}
+
+// Renders a markdown document, with ```mermaid fences drawn as diagrams
+export function MarkdownRenderer({ code, className = '', onRendered }: MarkdownRendererProps) {
+  const blocks = useMemo(() => renderMarkdown(code), [code]);
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
+  // Indexes of the diagram blocks that have finished rendering
+  const renderedDiagrams = useRef(new Set<number>());
+  const diagramCount = blocks.filter(block => block.type === 'mermaid').length;
+
+  const handleDiagramRendered = (index: number) => {
+    renderedDiagrams.current.add(index);
+    if (renderedDiagrams.current.size === diagramCount) {
+      onRenderedRef.current?.();
+    }
+  };
+
+  useEffect(() => {
+    renderedDiagrams.current = new Set();
+    if (diagramCount === 0) {
+      onRenderedRef.current?.();
+    }
+  }, [blocks, diagramCount]);
+
+  return (
+    <div className={`markdown-body ${className}`}>
+      {blocks.map((block, index) =>
+        block.type === 'mermaid' ? (
+          <div key={index} className="my-4">
+            <MermaidRenderer code={block.code} onRendered={() => handleDiagramRendered(index)} />
+          </div>
+        ) : (
+          <div key={index} dangerouslySetInnerHTML={{ __html: block.html }} />
+        )
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,21 @@
 import React, { useEffect, useRef, useState } from 'react';
-import mermaid from 'mermaid';
+import { renderMermaidSvg } from '../../lib/renderMermaid';
 
 interface MermaidRendererProps {
   code: string;
   className?: string;
+  // Called once the diagram (or an error) is shown
+  onRendered?: () => void;
 }
 
-export function MermaidRenderer({ code, className = '' }: MermaidRendererProps) {
+export function MermaidRenderer({ code, className = '', onRendered }: MermaidRendererProps) {
   const [svgCode, setSvgCode] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [copyStatus, setCopyStatus] = useState<string>('');
   const mermaidRef = useRef<HTMLDivElement>(null);
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
   
-  useEffect(() => {
-    // Initialize mermaid
-    mermaid.initialize({
-      startOnLoad: false,
-      theme: 'default',
-      securityLevel: 'strict',
-      flowchart: {
-        htmlLabels: true,
-        curve: 'basis',
-      },
-      fontFamily: 'sans-serif',
-    });
-  }, []);
-
   useEffect(() => {
     const renderDiagram = async () => {
       if (!code.trim()) {
@@ -34,17 +24,8 @@ export function MermaidRenderer({ code, className = '' }: MermaidRendererProps)
       }
 
       try {
-        // Generate a unique ID for this diagram
-        const id = `mermaid-${Math.random().toString(36).substring(2, 11)}`;
-        
-        // Try to parse the diagram to check for syntax errors
-        await mermaid.parse(code);
-        
-        // Render the diagram
-        const { svg } = await mermaid.render(id, code);
-        
         // Set the SVG code
-        setSvgCode(svg);
+        setSvgCode(await renderMermaidSvg(code));
         setError(null);
       } catch (err: any) {
         console.error('Mermaid rendering error:', err);
@@ -56,6 +37,12 @@ export function MermaidRenderer({ code, className = '' }: MermaidRendererProps)
     renderDiagram();
   }, [code]);
 
+  useEffect(() => {
+    if (svgCode || error) {
+      onRenderedRef.current?.();
+    }
+  }, [svgCode, error]);
+
   // Function to download raw SVG of Mermaid diagram
   const downloadRawSvg = () => {
     try {
@@ -0,0 +1,160 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RotateCcw } from 'lucide-react';
+import {
+  SANDBOX_URL,
+  isSandboxMessage,
+  type ConsoleEntry,
+  type HostCommand,
+  type HostMessage
+} from '../../lib/sandboxProtocol';
+import { ArtifactConsole, SourceLine } from './ArtifactConsole';
+
+interface ReactRendererProps {
+  code: string;
+  className?: string;
+  // Called when the artifact fails to transpile or instantiate
+  onError?: (message: string) => void;
+  // When given, a thumbnail image is taken once the artifact has rendered;
+  // null when it failed to compile or could not be captured
+  onCapture?: (dataUrl: string | null) => void;
+}
+
+interface RuntimeError {
+  message: string;
+  stack?: string;
+  line?: number;
+}
+
+// Older entries are dropped so that chatty artifacts cannot exhaust memory
+const MAX_CONSOLE_ENTRIES = 500;
+// Time for effects, data loading and entry animations before a capture
+const CAPTURE_DELAY = 800;
+
+export function ReactRenderer({ code, className = '', onError, onCapture }: ReactRendererProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [ready, setReady] = useState(false);
+  const [rendering, setRendering] = useState(true);
+  const [height, setHeight] = useState(150);
+  const [runtimeError, setRuntimeError] = useState<RuntimeError | null>(null);
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+
+  // Keep the latest callback without re-subscribing the message listener
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const onCaptureRef = useRef(onCapture);
+  onCaptureRef.current = onCapture;
+
+  const sendCommand = useCallback((command: HostCommand) => {
+    const message: HostMessage = { ...command, source: 'artifact-host' };
+    iframeRef.current?.contentWindow?.postMessage(message, '*');
+  }, []);
+
+  // Listen to messages coming from our own sandbox iframe only
+  useEffect(() => {
+    let captureTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isSandboxMessage(event.data)) {
+        return;
+      }
+
+      const message = event.data;
+      switch (message.type) {
+        case 'ready':
+          setReady(true);
+          break;
+        case 'rendered':
+          setRendering(false);
+          setRuntimeError(null);
+          if (onCaptureRef.current) {
+            clearTimeout(captureTimer);
+            captureTimer = setTimeout(() => sendCommand({ type: 'capture' }), CAPTURE_DELAY);
+          }
+          break;
+        case 'captured':
+          onCaptureRef.current?.(message.dataUrl);
+          break;
+        case 'resize':
+          setHeight(Math.max(message.height, 50));
+          break;
+        case 'console':
+          setConsoleEntries(entries => [...entries.slice(-(MAX_CONSOLE_ENTRIES - 1)), message.entry]);
+          break;
+        case 'error':
+          setRendering(false);
+          if (message.phase === 'compile') {
+            onErrorRef.current?.(message.message);
+            onCaptureRef.current?.(null);
+          } else {
+            setRuntimeError({ message: message.message, stack: message.stack, line: message.line });
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      clearTimeout(captureTimer);
+    };
+  }, [sendCommand]);
+
+  // Send the code to the sandbox once it has loaded, and whenever it changes
+  useEffect(() => {
+    if (!ready) return;
+
+    setRendering(true);
+    setRuntimeError(null);
+    setConsoleEntries([]);
+    sendCommand({ type: 'render', code });
+  }, [ready, code, sendCommand]);
+
+  return (
+    <div className={`react-renderer ${className}`}>
+      {runtimeError && (
+        <div className="bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm mb-3">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <span className="font-semibold">Runtime error{runtimeError.line !== undefined && ` (line ${runtimeError.line})`}: </span>
+              {runtimeError.message}
+            </div>
+            <button
+              onClick={() => sendCommand({ type: 'reset' })}
+              className="flex items-center flex-shrink-0 px-2 py-1 border border-red-300 rounded hover:bg-red-100"
+              title="Remount the artifact with fresh state"
+            >
+              <RotateCcw size={14} className="mr-1" />
+              Reset
+            </button>
+          </div>
+          {runtimeError.line !== undefined && <SourceLine code={code} line={runtimeError.line} />}
+          {runtimeError.stack && (
+            <details className="mt-2">
+              <summary className="cursor-pointer">Stack trace</summary>
+              <pre className="font-mono text-xs whitespace-pre-wrap mt-1">{runtimeError.stack}</pre>
+            </details>
+          )}
+        </div>
+      )}
+
+      {rendering && (
+        <div className="flex items-center justify-center p-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          <span className="ml-2">Running component...</span>
+        </div>
+      )}
+
+      {/* No allow-same-origin: the artifact gets an opaque origin and cannot reach the gallery */}
+      <iframe
+        ref={iframeRef}
+        src={SANDBOX_URL}
+        title="Artifact preview"
+        sandbox="allow-scripts allow-modals allow-forms"
+        className="w-full border-0"
+        style={{ height }}
+      />
+
+      <ArtifactConsole code={code} entries={consoleEntries} onClear={() => setConsoleEntries([])} />
+    </div>
+  );
+}
@@ -1,16 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
-import DOMPurify from 'dompurify';
+import { sanitizeSvg } from '../../lib/sanitize';
 
 interface SVGRendererProps {
   code: string;
   className?: string;
+  // Called once the image (or an error) is shown
+  onRendered?: () => void;
 }
 
-export function SVGRenderer({ code, className = '' }: SVGRendererProps) {
+export function SVGRenderer({ code, className = '', onRendered }: SVGRendererProps) {
   const [sanitizedCode, setSanitizedCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [copyStatus, setCopyStatus] = useState<string>('');
   const svgContainerRef = useRef<HTMLDivElement>(null);
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
 
   useEffect(() => {
     try {
@@ -19,21 +23,8 @@ export function SVGRenderer({ code, className = '' }: SVGRendererProps) {
         throw new Error('Invalid SVG: Missing <svg> tags');
       }
 
-      // Configure DOMPurify to allow SVG tags
-      DOMPurify.addHook('afterSanitizeAttributes', function(node) {
-        // Fix namespaced attributes
-        if(node.hasAttribute('xlink:href')) {
-          node.setAttribute('xlink:href', 
-            DOMPurify.sanitize(node.getAttribute('xlink:href')!)
-          );
-        }
-      });
-
       // Use DOMPurify to sanitize the SVG
-      const sanitized = DOMPurify.sanitize(code, {
-        USE_PROFILES: { svg: true, svgFilters: true },
-        ADD_TAGS: ['svg', 'path', 'circle', 'rect', 'line', 'polyline', 'polygon', 'ellipse', 'g', 'text', 'tspan']
-      });
+      const sanitized = sanitizeSvg(code);
       
       setSanitizedCode(sanitized);
       setError(null);
@@ -44,6 +35,12 @@ export function SVGRenderer({ code, className = '' }: SVGRendererProps) {
     }
   }, [code]);
 
+  useEffect(() => {
+    if (sanitizedCode || error) {
+      onRenderedRef.current?.();
+    }
+  }, [sanitizedCode, error]);
+
   // More reliable way to copy SVG as image to clipboard
   const copySvgAsImage = async () => {
     try {
@@ -0,0 +1,26 @@
+const ProgressRing = ({ progress = 65 }) => {
+  const radius = 50;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <div className="flex items-center justify-center p-8">
+      <svg width="120" height="120" viewBox="0 0 120 120">
+        <circle cx="60" cy="60" r={radius} stroke="#e5e7eb" strokeWidth="10" fill="none" />
+        <circle
+          cx="60"
+          cy="60"
+          r={radius}
+          stroke="#10b981"
+          strokeWidth="10"
+          fill="none"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress / 100)}
+          transform="rotate(-90 60 60)"
+        />
+        <text x="60" y="66" textAnchor="middle" fontSize="20">{progress}%</text>
+      </svg>
+    </div>
+  );
+};
+
+export default ProgressRing;
@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import { Sun, Cloud, CloudRain } from 'lucide-react';
+
+const forecast = [
+  { day: 'Mon', high: 21, icon: Sun },
+  { day: 'Tue', high: 18, icon: Cloud },
+  { day: 'Wed', high: 15, icon: CloudRain },
+];
+
+export default function WeatherCard() {
+  const [unit, setUnit] = useState('C');
+  const convert = (celsius) => (unit === 'C' ? celsius : Math.round(celsius * 9 / 5 + 32));
+
+  return (
+    <div className="max-w-sm p-6 rounded-xl shadow bg-white">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">This week</h2>
+        <button onClick={() => setUnit(unit === 'C' ? 'F' : 'C')} className="text-sm text-blue-600">
+          °{unit === 'C' ? 'F' : 'C'}
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {forecast.map(({ day, high, icon: Icon }) => (
+          <li key={day} className="flex items-center justify-between">
+            <span>{day}</span>
+            <Icon size={20} />
+            <span>{convert(high)}°{unit}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
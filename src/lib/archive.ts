@@ -0,0 +1,180 @@
+import { zipSync, unzipSync, strToU8, strFromU8, type Zippable } from 'fflate';
+import type { Artifact, ArtifactFolder } from './store';
+import { getArtifactFilePath } from './artifactFiles';
+import {
+  CURRENT_SCHEMA_VERSION,
+  checkSchemaVersion,
+  folderSchema,
+  migrateArtifacts,
+  type ArtifactIssue,
+  type MigrationResult,
+} from './schema';
+
+// Zip export format, with every artifact as a source file in directories that
+// mirror its folder, so that exports can be read and diffed like code. What
+// the files cannot hold goes next to them:
+//
+//   manifest.json          schema version, artifact metadata and folder details
+//   Charts/Sales.tsx       an artifact's code, as-is
+//   .history/<id>.json     revisions of artifacts that have any
+//
+// Thumbnails are left out, like in JSON exports; they are regenerated.
+
+export const MANIFEST_FILE = 'manifest.json';
+const HISTORY_DIR = '.history';
+
+type ArtifactMetadata = Omit<Artifact, 'code' | 'revisions' | 'thumbnail'>;
+
+interface ManifestEntry extends ArtifactMetadata {
+  // Paths in the archive of the artifact's code and revisions
+  file: string;
+  history?: string;
+}
+
+interface Manifest {
+  schemaVersion: number;
+  exportedAt: string;
+  artifacts: ManifestEntry[];
+  folders: ArtifactFolder[];
+}
+
+export interface ArchiveContents extends MigrationResult {
+  folders: ArtifactFolder[];
+}
+
+// Zip files start with the signature of a local file header
+export const isZipData = (data: Uint8Array) =>
+  data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+
+export function createArtifactArchive(artifacts: Artifact[], folders: ArtifactFolder[]): Uint8Array {
+  const files: Zippable = {};
+  // Compared case-insensitively, for file systems that do
+  const taken = new Set<string>();
+
+  const entries = artifacts.map((artifact): ManifestEntry => {
+    let file = getArtifactFilePath(artifact);
+    if (taken.has(file.toLowerCase())) {
+      file = file.replace(/(\.[^./]+)$/, `-${artifact.id}$1`);
+    }
+    taken.add(file.toLowerCase());
+    files[file] = strToU8(artifact.code);
+
+    let history: string | undefined;
+    if (artifact.revisions && artifact.revisions.length > 0) {
+      history = `${HISTORY_DIR}/${encodeURIComponent(artifact.id)}.json`;
+      files[history] = strToU8(JSON.stringify(artifact.revisions, null, 2));
+    }
+
+    return {
+      id: artifact.id,
+      title: artifact.title,
+      description: artifact.description,
+      type: artifact.type,
+      tags: artifact.tags,
+      folder: artifact.folder,
+      createdAt: artifact.createdAt,
+      updatedAt: artifact.updatedAt,
+      deletedAt: artifact.deletedAt,
+      source: artifact.source,
+      file,
+      history,
+    };
+  });
+
+  const manifest: Manifest = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    artifacts: entries,
+    folders,
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(files);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Read an archive made by createArtifactArchive. Throws when the archive as a
+// whole is unusable; individual malformed artifacts are reported as issues.
+export function parseArtifactArchive(data: Uint8Array): ArchiveContents {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch (err) {
+    console.error('Failed to unzip the archive:', err);
+    throw new Error('Invalid zip file');
+  }
+
+  // Archives that were unpacked and zipped again may have everything in a top-level directory
+  const manifestPath = Object.keys(files)
+    .filter(path => path === MANIFEST_FILE || path.endsWith(`/${MANIFEST_FILE}`))
+    .sort((a, b) => a.length - b.length)[0];
+  if (!manifestPath) {
+    throw new Error(`The zip file has no ${MANIFEST_FILE}`);
+  }
+  const root = manifestPath.slice(0, -MANIFEST_FILE.length);
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(files[manifestPath]));
+  } catch (err) {
+    console.error('Failed to read the manifest:', err);
+    throw new Error(`Invalid JSON in ${MANIFEST_FILE}`);
+  }
+  if (!isRecord(manifest) || !Array.isArray(manifest.artifacts) || typeof manifest.schemaVersion !== 'number') {
+    throw new Error(`Unrecognized ${MANIFEST_FILE} format`);
+  }
+  checkSchemaVersion(manifest.schemaVersion);
+
+  // Records with their code and revisions, and their index in the manifest
+  const records: unknown[] = [];
+  const indexes: number[] = [];
+  const issues: ArtifactIssue[] = [];
+
+  manifest.artifacts.forEach((entry: unknown, index) => {
+    if (!isRecord(entry)) {
+      records.push(entry);
+      indexes.push(index);
+      return;
+    }
+
+    const { file, history, ...fields } = entry;
+    const content = typeof file === 'string' ? files[root + file] : undefined;
+    if (!content) {
+      issues.push({
+        index,
+        id: typeof entry.id === 'string' ? entry.id : undefined,
+        title: typeof entry.title === 'string' ? entry.title : undefined,
+        problems: [`file: ${typeof file === 'string' ? `"${file}" is not in the zip file` : 'Required'}`],
+        data: entry,
+      });
+      return;
+    }
+
+    const record: Record<string, unknown> = { ...fields, code: strFromU8(content) };
+    const historyContent = typeof history === 'string' ? files[root + history] : undefined;
+    if (historyContent) {
+      try {
+        record.revisions = JSON.parse(strFromU8(historyContent));
+      } catch (err) {
+        console.warn(`Ignoring unreadable history ${history}:`, err);
+      }
+    }
+    records.push(record);
+    indexes.push(index);
+  });
+
+  const result = migrateArtifacts(records, manifest.schemaVersion);
+  result.issues.forEach(issue => issues.push({ ...issue, index: indexes[issue.index] }));
+
+  // Folder details edited into something invalid are skipped
+  const folders = Array.isArray(manifest.folders)
+    ? manifest.folders.flatMap((folder: unknown) => {
+      const parsed = folderSchema.safeParse(folder);
+      if (!parsed.success) console.warn(`Invalid folder in ${MANIFEST_FILE}:`, folder);
+      return parsed.success ? [parsed.data] : [];
+    })
+    : [];
+
+  return { artifacts: result.artifacts, issues: issues.sort((a, b) => a.index - b.index), folders };
+}
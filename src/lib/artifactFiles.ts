@@ -0,0 +1,135 @@
+import type { Artifact } from './store';
+import { detectCodeLanguage } from './executeArtifact';
+
+// File extension matching the language of an artifact's code
+export function getArtifactFileExtension(artifact: Pick<Artifact, 'type' | 'code'>): string {
+  switch (artifact.type) {
+    case 'svg':
+      return 'svg';
+    case 'mermaid':
+      return 'mmd';
+    case 'html':
+      return 'html';
+    case 'markdown':
+      return 'md';
+    default:
+      return detectCodeLanguage(artifact.code);
+  }
+}
+
+// File name used when downloading an artifact's code, or another file made from it
+export function getArtifactFileName(
+  artifact: Pick<Artifact, 'title' | 'type' | 'code'>,
+  extension = getArtifactFileExtension(artifact)
+): string {
+  const baseName = artifact.title.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'artifact';
+  return `${baseName}.${extension}`;
+}
+
+const sanitizeSegment = (segment: string) => segment.trim().replace(/[\\/:*?"<>|]+/g, '-');
+
+// Path of an artifact's file in a directory tree that mirrors its folder
+export function getArtifactFilePath(artifact: Pick<Artifact, 'title' | 'type' | 'code' | 'folder'>): string {
+  const directory = (artifact.folder || '')
+    .replace(/\\/g, '/')
+    .split('/')
+    .map(sanitizeSegment)
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+  const fileName = getArtifactFileName(artifact);
+  return directory ? `${directory}/${fileName}` : fileName;
+}
+
+// Metadata stored at the top of artifact files, inside a comment so that the
+// file stays valid code (or SVG, Mermaid, HTML or markdown) and can be edited by hand
+const FRONT_MATTER_FIELDS = ['id', 'title', 'description', 'type', 'tags', 'createdAt', 'updatedAt', 'deletedAt', 'source', 'schemaVersion'] as const;
+
+interface CommentSyntax {
+  open: string;
+  close: string;
+  // Prefix of every metadata line
+  line: string;
+}
+
+const commentSyntax = (extension: string): CommentSyntax => {
+  switch (extension) {
+    case 'svg':
+    case 'html':
+    case 'htm':
+    case 'md':
+    case 'markdown':
+      return { open: '<!--artifact', close: '-->', line: '' };
+    case 'mmd':
+      return { open: '%%---', close: '%%---', line: '%% ' };
+    default:
+      return { open: '/*---', close: '---*/', line: '' };
+  }
+};
+
+// Has to come first in its file, before the front-matter
+const PROLOG = /^\s*(?:<\?xml[^>]*\?>|<!DOCTYPE[^>]*>)\s*/i;
+
+// JSON values, escaped so that they cannot end the surrounding comment
+const encodeValue = (value: unknown) =>
+  JSON.stringify(value).replace(/--/g, '-\\u002d').replace(/\*\//g, '*\\u002f');
+
+// Values edited by hand may be plain YAML-style scalars instead of JSON
+const decodeValue = (key: string, raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return key === 'tags' ? raw.split(',').map(tag => tag.trim()).filter(Boolean) : raw;
+  }
+};
+
+export interface ArtifactFileMetadata extends Partial<Pick<Artifact, 'id' | 'title' | 'description' | 'type' | 'tags' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'source'>> {
+  schemaVersion?: number;
+}
+
+// Serialize an artifact as the content of its file: front-matter plus code.
+// Folder and file name are not part of the content; see getArtifactFileName.
+export function serializeArtifactFile(artifact: Artifact, schemaVersion: number): string {
+  const syntax = commentSyntax(getArtifactFileExtension(artifact));
+  const metadata: ArtifactFileMetadata = { ...artifact, schemaVersion };
+
+  const lines = FRONT_MATTER_FIELDS
+    .filter(key => metadata[key] !== undefined)
+    .map(key => `${syntax.line}${key}: ${encodeValue(metadata[key])}`);
+  const frontMatter = [syntax.open, ...lines, syntax.close].join('\n') + '\n';
+
+  // The XML declaration (SVG) or doctype (HTML) stays at the very start of the file
+  const prolog = artifact.code.match(PROLOG);
+  if (prolog) {
+    return prolog[0].trimEnd() + '\n' + frontMatter + artifact.code.slice(prolog[0].length);
+  }
+  return frontMatter + artifact.code;
+}
+
+// Split the content of an artifact file into its front-matter and code. Files
+// without front-matter (e.g. added by hand) return empty metadata.
+export function parseArtifactFile(fileName: string, content: string): { metadata: ArtifactFileMetadata; code: string } {
+  const syntax = commentSyntax(fileName.split('.').pop() || '');
+
+  const prolog = content.match(PROLOG)?.[0] || '';
+  const rest = content.slice(prolog.length);
+  if (!rest.startsWith(syntax.open + '\n')) {
+    return { metadata: {}, code: content };
+  }
+
+  const end = rest.indexOf('\n' + syntax.close, syntax.open.length);
+  if (end === -1) {
+    return { metadata: {}, code: content };
+  }
+
+  const metadata: Record<string, unknown> = {};
+  rest.slice(syntax.open.length + 1, end).split('\n').forEach(line => {
+    const match = line.slice(syntax.line.length).match(/^\s*([A-Za-z]+):\s*(.*)$/);
+    if (match && (FRONT_MATTER_FIELDS as readonly string[]).includes(match[1])) {
+      metadata[match[1]] = decodeValue(match[1], match[2].trim());
+    }
+  });
+
+  const bodyStart = end + 1 + syntax.close.length;
+  const code = rest.slice(rest[bodyStart] === '\n' ? bodyStart + 1 : bodyStart);
+  return { metadata: metadata as ArtifactFileMetadata, code: prolog + code };
+}
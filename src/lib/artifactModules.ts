@@ -0,0 +1,54 @@
+// Module map used to resolve `import` statements inside artifacts.
+// Artifacts are transformed to CommonJS and every `require(specifier)` call is
+// answered from this map, so only explicitly registered modules are available.
+// Claude-generated artifacts commonly import shadcn components from
+// `@/components/ui/<name>`, so we expose the real exports shipped in
+// src/components/ui under exactly those specifiers.
+import * as ReactModule from 'react';
+import * as ReactDOMModule from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as LucideIcons from 'lucide-react';
+import * as Recharts from 'recharts';
+import * as DateFns from 'date-fns';
+import * as Zod from 'zod';
+import lodash from 'lodash';
+import * as utils from './utils';
+import { normalizeModuleSpecifier, type ModuleExports } from './runComponent';
+
+const artifactModules: Record<string, ModuleExports> = {};
+
+// Register (or replace) a module that artifacts can import by specifier
+export function registerArtifactModule(specifier: string, exports: ModuleExports): void {
+  artifactModules[specifier] = exports;
+}
+
+registerArtifactModule('react', ReactModule);
+registerArtifactModule('react-dom', ReactDOMModule);
+registerArtifactModule('react-dom/client', ReactDOMClient);
+registerArtifactModule('lucide-react', LucideIcons);
+registerArtifactModule('recharts', Recharts);
+registerArtifactModule('date-fns', DateFns);
+registerArtifactModule('zod', Zod);
+registerArtifactModule('lodash', { ...lodash, default: lodash });
+
+const uiModules = import.meta.glob<ModuleExports>('../components/ui/*.{ts,tsx}', { eager: true });
+
+Object.entries(uiModules).forEach(([path, exports]) => {
+  const name = path.replace(/^.*\/ui\//, '').replace(/\.tsx?$/, '');
+  registerArtifactModule(`@/components/ui/${name}`, exports);
+});
+
+// Shared helpers used by the shadcn components (e.g. `cn`)
+registerArtifactModule('@/lib/utils', utils);
+
+export function isRegisteredModule(specifier: string): boolean {
+  return normalizeModuleSpecifier(specifier) in artifactModules;
+}
+
+export function resolveArtifactModule(specifier: string): ModuleExports | undefined {
+  return artifactModules[normalizeModuleSpecifier(specifier)];
+}
+
+export function getAvailableModules(): string[] {
+  return Object.keys(artifactModules).sort();
+}
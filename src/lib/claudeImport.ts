@@ -0,0 +1,231 @@
+import type { Artifact, ArtifactSource } from './store';
+import { detectArtifactType } from './detectType';
+
+// Finding artifacts in Claude conversations: the conversations.json of a
+// Claude data export, or a transcript pasted as text. Artifacts come from
+// <antArtifact> blocks, from calls of the artifacts tool (newer exports), and
+// from fenced code blocks in Claude's replies.
+
+export interface ArtifactCandidate {
+  // Unique within one parse
+  key: string;
+  title: string;
+  type: Artifact['type'];
+  code: string;
+  origin: 'artifact' | 'code-block';
+  // Whether the type was given by the artifact or the code block's language,
+  // rather than detected from the code
+  typeGiven: boolean;
+  // Versions of the artifact in the conversation; the last one is used
+  versions: number;
+  source: ArtifactSource;
+}
+
+export interface ClaudeImportResult {
+  candidates: ArtifactCandidate[];
+  conversations: number;
+}
+
+// Artifact types Claude uses for content the gallery can show
+const MIME_TYPES: Record<string, Artifact['type']> = {
+  'application/vnd.ant.react': 'react',
+  'image/svg+xml': 'svg',
+  'application/vnd.ant.mermaid': 'mermaid',
+  'text/html': 'html',
+  'text/markdown': 'markdown',
+};
+
+const LANGUAGE_TYPES: Record<string, Artifact['type']> = {
+  jsx: 'react',
+  tsx: 'react',
+  react: 'react',
+  svg: 'svg',
+  mermaid: 'mermaid',
+  mmd: 'mermaid',
+  html: 'html',
+  markdown: 'markdown',
+  md: 'markdown',
+};
+
+// Languages whose code blocks may still be artifacts, judged by their code
+const DETECTED_LANGUAGES = ['', 'javascript', 'js', 'typescript', 'ts', 'xml'];
+
+// The longest line before a code block that is used as its title
+const MAX_TITLE_LENGTH = 80;
+
+interface RawConversation {
+  name?: unknown;
+  uuid?: unknown;
+  created_at?: unknown;
+  chat_messages?: unknown;
+}
+
+// An artifact's code as the artifacts tool created or edited it
+interface ToolArtifactInput {
+  id?: string;
+  type?: string;
+  title?: string;
+  language?: string;
+  command?: string;
+  content?: string;
+  old_str?: string;
+  new_str?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseAttributes = (text: string): Record<string, string> =>
+  Object.fromEntries(Array.from(text.matchAll(/([\w-]+)="([^"]*)"/g), match => [match[1], match[2]]));
+
+const typeOf = (mimeType: string | undefined, language: string | undefined, code: string) => {
+  const given = (mimeType && MIME_TYPES[mimeType]) || (language && LANGUAGE_TYPES[language.toLowerCase()]);
+  if (given) return { type: given, typeGiven: true };
+  // Code artifacts (application/vnd.ant.code) and unlabeled code blocks
+  if (mimeType && mimeType !== 'application/vnd.ant.code') return null;
+  if (!DETECTED_LANGUAGES.includes((language || '').toLowerCase())) return null;
+  const detected = detectArtifactType(code);
+  return detected ? { type: detected, typeGiven: false } : null;
+};
+
+// The line before a code block, e.g. "Here's the updated chart component:",
+// as a title without markdown
+const titleBefore = (text: string) => {
+  const line = text.trimEnd().split('\n').pop()?.trim() ?? '';
+  const title = line
+    .replace(/^#{1,6}\s+|^[-*+]\s+|^\d+\.\s+/, '')
+    .replace(/[*_`]/g, '')
+    .replace(/[:.]$/, '')
+    .trim();
+  return title.length <= MAX_TITLE_LENGTH ? title : '';
+};
+
+// The candidates of one conversation. Artifacts that were updated along the
+// way are found once, with their last version.
+function scanConversation(conversation: RawConversation, index: number): ArtifactCandidate[] {
+  const source: ArtifactSource = {
+    conversation: typeof conversation.name === 'string' && conversation.name.trim() ? conversation.name.trim() : 'Untitled conversation',
+    ...(typeof conversation.uuid === 'string' ? { conversationId: conversation.uuid } : {}),
+    ...(typeof conversation.created_at === 'string' && !Number.isNaN(Date.parse(conversation.created_at))
+      ? { date: conversation.created_at }
+      : {}),
+  };
+  const artifacts = new Map<string, ArtifactCandidate>();
+  const codeBlocks: ArtifactCandidate[] = [];
+
+  const addArtifact = (identifier: string, title: string | undefined, mimeType: string | undefined, language: string | undefined, code: string) => {
+    const previous = artifacts.get(identifier);
+    // Updates usually leave out the type; it stays that of the first version
+    const type = previous && !mimeType && !language
+      ? { type: previous.type, typeGiven: previous.typeGiven }
+      : typeOf(mimeType, language, code);
+    if (!type || !code.trim()) return;
+
+    artifacts.set(identifier, {
+      key: `${index}:artifact:${identifier}`,
+      title: title || previous?.title || identifier,
+      ...type,
+      code,
+      origin: 'artifact',
+      versions: (previous?.versions ?? 0) + 1,
+      source,
+    });
+  };
+
+  // Text of a message, which may hold <antArtifact> blocks and code blocks
+  const scanText = (text: string) => {
+    const prose = text.replace(/<antArtifact\b([^>]*)>([\s\S]*?)<\/antArtifact>/g, (_, attributes: string, code: string) => {
+      const { identifier, title, type, language } = parseAttributes(attributes);
+      addArtifact(identifier || title || `artifact-${artifacts.size + 1}`, title, type, language, code.replace(/^\n|\n$/g, ''));
+      return '';
+    });
+
+    const fence = /^(`{3,}|~{3,})[ \t]*([\w+#.-]*)[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = fence.exec(prose))) {
+      const code = match[3].replace(/\n$/, '');
+      const type = code.trim() ? typeOf(undefined, match[2], code) : null;
+      if (!type) continue;
+      codeBlocks.push({
+        key: `${index}:code:${codeBlocks.length}`,
+        title: titleBefore(prose.slice(0, match.index)) || `${source.conversation} (${codeBlocks.length + 1})`,
+        ...type,
+        code,
+        origin: 'code-block',
+        versions: 1,
+        source,
+      });
+    }
+  };
+
+  // A call of the artifacts tool
+  const scanToolUse = (input: ToolArtifactInput) => {
+    const identifier = input.id || input.title;
+    if (!identifier) return;
+    if (input.command === 'update') {
+      // Edits replace a snippet of the latest version
+      const previous = artifacts.get(identifier);
+      if (!previous || input.old_str === undefined || !previous.code.includes(input.old_str)) return;
+      addArtifact(identifier, input.title, input.type, input.language, previous.code.replace(input.old_str, () => input.new_str ?? ''));
+    } else if (typeof input.content === 'string') {
+      addArtifact(identifier, input.title, input.type, input.language, input.content);
+    }
+  };
+
+  const messages: unknown[] = Array.isArray(conversation.chat_messages) ? conversation.chat_messages : [];
+  messages.forEach(message => {
+    // Code the user pasted into the chat is not Claude's output
+    if (!isRecord(message) || message.sender === 'human') return;
+
+    if (Array.isArray(message.content) && message.content.length > 0) {
+      message.content.forEach((part: unknown) => {
+        if (!isRecord(part)) return;
+        if (part.type === 'text' && typeof part.text === 'string') {
+          scanText(part.text);
+        } else if (part.type === 'tool_use' && part.name === 'artifacts' && isRecord(part.input)) {
+          scanToolUse(part.input as ToolArtifactInput);
+        }
+      });
+    } else if (typeof message.text === 'string') {
+      scanText(message.text);
+    }
+  });
+
+  return [...Array.from(artifacts.values()), ...codeBlocks];
+}
+
+const isConversation = (value: unknown): value is RawConversation =>
+  isRecord(value) && Array.isArray(value.chat_messages);
+
+// Find the artifacts in a Claude export (conversations.json, or a single
+// conversation) or in a pasted transcript, titled `transcriptTitle`. Throws
+// for JSON that is not a Claude export.
+export function findClaudeArtifacts(text: string, transcriptTitle = ''): ClaudeImportResult {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      data = undefined;
+    }
+    if (data !== undefined) {
+      const conversations = Array.isArray(data) ? data : [data];
+      if (!conversations.every(isConversation)) {
+        throw new Error('This JSON is not a Claude conversation export. Use the conversations.json file of a Claude data export.');
+      }
+      return {
+        candidates: conversations.flatMap(scanConversation),
+        conversations: conversations.length,
+      };
+    }
+  }
+
+  // A transcript copied from a chat: everything in it is scanned
+  const transcript: RawConversation = {
+    name: transcriptTitle.trim() || 'Pasted transcript',
+    chat_messages: [{ sender: 'assistant', text }],
+  };
+  return { candidates: scanConversation(transcript, 0), conversations: 1 };
+}
@@ -0,0 +1,126 @@
+import * as Babel from '@babel/standalone';
+import mermaid from 'mermaid';
+import type { Artifact } from './store';
+import { findMermaidFences } from './markdown';
+
+// A problem found in artifact source, located by 1-based line and column
+export interface CodeDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+interface BabelSyntaxError {
+  message?: string;
+  loc?: { line: number; column: number };
+}
+
+// Babel appends the position to its messages, e.g. "Unexpected token (3:5)"
+const stripPosition = (message: string) => message.replace(/\s*\(\d+:\d+\)$/, '');
+
+const fromBabelError = (err: unknown): CodeDiagnostic => {
+  const { message, loc } = err as BabelSyntaxError;
+  return {
+    line: loc?.line ?? 1,
+    // Babel columns are 0-based
+    column: (loc?.column ?? 0) + 1,
+    message: stripPosition(message ?? String(err)),
+    severity: 'error',
+  };
+};
+
+// Syntax errors in React artifact code, parsed with the same TSX settings
+// used to run it. Error recovery reports every recoverable error, not only the first.
+export function findReactDiagnostics(code: string): CodeDiagnostic[] {
+  try {
+    const ast = Babel.packages.parser.parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript'],
+      errorRecovery: true,
+    });
+    return (ast.errors ?? []).map(fromBabelError);
+  } catch (err) {
+    return [fromBabelError(err)];
+  }
+}
+
+// Browsers render malformed SVG markup leniently, so report XML errors separately
+export function findSvgParseError(code: string): string | null {
+  const parsed = new DOMParser().parseFromString(code, 'image/svg+xml');
+  const parserError = parsed.querySelector('parsererror');
+  return parserError ? parserError.textContent?.trim() || 'Invalid SVG markup' : null;
+}
+
+// XML errors in SVG markup. Chrome reports "error on line 3 at column 5",
+// Firefox "Line Number 3, Column 5".
+export function findSvgDiagnostics(code: string): CodeDiagnostic[] {
+  const message = findSvgParseError(code);
+  if (!message) return [];
+
+  const position = message.match(/line (\d+) at column (\d+)/i) ?? message.match(/Line Number (\d+), Column (\d+)/i);
+  return [{
+    line: position ? Number(position[1]) : 1,
+    column: position ? Number(position[2]) : 1,
+    message: message.replace(/^This page contains the following errors:/, '').split('\n')[0].trim() || message,
+    severity: 'error',
+  }];
+}
+
+interface MermaidParseError {
+  message?: string;
+  // Set by the Jison-generated parsers (flowchart, sequence, class, ...)
+  hash?: { loc?: { first_line: number; first_column: number } };
+}
+
+// Parse errors in Mermaid diagram syntax
+export async function findMermaidDiagnostics(code: string): Promise<CodeDiagnostic[]> {
+  try {
+    await mermaid.parse(code);
+    return [];
+  } catch (err) {
+    const error = err as MermaidParseError;
+    const message = error.message || String(err);
+    const loc = error.hash?.loc;
+    // Other parsers only mention the position in the message
+    const position = message.match(/line:? (\d+)(?:,? column:? (\d+))?/i);
+
+    return [{
+      line: loc?.first_line ?? (position ? Number(position[1]) : 1),
+      column: loc ? loc.first_column + 1 : position?.[2] ? Number(position[2]) : 1,
+      message,
+      severity: 'error',
+    }];
+  }
+}
+
+// Parse errors in the ```mermaid fences of a markdown document; markdown
+// itself has no syntax errors
+export async function findMarkdownDiagnostics(code: string): Promise<CodeDiagnostic[]> {
+  const fences = await Promise.all(findMermaidFences(code).filter(fence => fence.code.trim()).map(async fence =>
+    (await findMermaidDiagnostics(fence.code)).map(diagnostic => ({
+      ...diagnostic,
+      line: diagnostic.line + fence.line - 1,
+    }))
+  ));
+  return fences.flat();
+}
+
+// Problems in artifact source of the given type, for marking in the editor
+export async function findCodeDiagnostics(code: string, type: Artifact['type']): Promise<CodeDiagnostic[]> {
+  if (!code.trim()) return [];
+
+  switch (type) {
+    case 'react':
+      return findReactDiagnostics(code);
+    case 'svg':
+      return findSvgDiagnostics(code);
+    case 'mermaid':
+      return findMermaidDiagnostics(code);
+    case 'html':
+      // Browsers recover from any HTML, so there are no parse errors to report
+      return [];
+    case 'markdown':
+      return findMarkdownDiagnostics(code);
+  }
+}
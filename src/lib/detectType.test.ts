@@ -0,0 +1,45 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DETECTION_THRESHOLD, detectArtifactTypes, type ArtifactType } from './detectType';
+
+// Real artifacts, typed by their file extension: the fixtures, and the
+// sample components in src/artifacts
+const FIXTURE_DIRS = [
+  path.resolve(__dirname, '__fixtures__/detectType'),
+  path.resolve(__dirname, '../artifacts'),
+];
+
+const EXTENSION_TYPES: Record<string, ArtifactType> = {
+  '.tsx': 'react',
+  '.jsx': 'react',
+  '.svg': 'svg',
+  '.mmd': 'mermaid',
+  '.html': 'html',
+  '.md': 'markdown',
+};
+
+const fixtures = FIXTURE_DIRS.flatMap(dir => readdirSync(dir)
+  .map(name => ({ name, code: readFileSync(path.join(dir, name), 'utf8'), type: EXTENSION_TYPES[path.extname(name)] }))
+  // Button.tsx is an empty placeholder
+  .filter(fixture => fixture.type && fixture.code.trim()));
+
+describe('detectArtifactTypes', () => {
+  it.each(fixtures)('ranks $name as $type', ({ code, type }) => {
+    const [best, runnerUp] = detectArtifactTypes(code);
+    expect(best.type).toBe(type);
+    expect(best.confidence).toBeGreaterThanOrEqual(DETECTION_THRESHOLD);
+    if (runnerUp) {
+      expect(best.confidence).toBeGreaterThan(runnerUp.confidence);
+    }
+  });
+
+  // Pins the confidences and reasons, so heuristic changes show up in review
+  it.each(fixtures)('explains the ranking of $name', ({ code }) => {
+    expect(detectArtifactTypes(code)).toMatchSnapshot();
+  });
+
+  it('finds nothing in blank code', () => {
+    expect(detectArtifactTypes('  \n')).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import type { Artifact } from './store';
+
+export type ArtifactType = Artifact['type'];
+
+// A possible type for some artifact code, with the evidence behind it
+export interface TypeCandidate {
+  type: ArtifactType;
+  // 0 (no evidence) to 1 (certain)
+  confidence: number;
+  reasons: string[];
+}
+
+// Confidence from which a candidate is used without asking
+export const DETECTION_THRESHOLD = 0.5;
+
+interface Signal {
+  // How strongly the signal alone indicates the type, 0 to 1
+  weight: number;
+  reason: string;
+  test: (code: string) => boolean;
+}
+
+// Mermaid diagram declarations, which open every diagram
+const mermaidDeclaration = new RegExp(
+  '^(?:' + [
+    '(?:graph|flowchart)(?:\\s+(?:TB|TD|BT|RL|LR))?',
+    'sequenceDiagram', 'classDiagram(?:-v2)?', 'stateDiagram(?:-v2)?', 'erDiagram', 'journey',
+    'gantt', 'pie', 'mindmap', 'timeline', 'gitGraph', 'quadrantChart', 'requirementDiagram',
+    'C4(?:Context|Container|Component|Dynamic|Deployment)', 'kanban',
+    '(?:sankey|xychart|block|packet|architecture|radar)-beta',
+  ].join('|') + ')(?:\\s|:|$)'
+);
+
+// First line that is not blank, a %% comment or part of a --- front-matter block
+const firstStatement = (code: string): string => {
+  const lines = code.trim().split('\n').map(line => line.trim());
+  let index = 0;
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    index = end === -1 ? lines.length : end + 1;
+  }
+  const statement = lines.slice(index).find(line => line && !line.startsWith('%%'));
+  return statement ?? '';
+};
+
+// Markup with any XML declaration, doctype and leading comments removed
+const stripMarkupPreamble = (code: string) =>
+  code.trim().replace(/^(?:<\?xml[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!--[\s\S]*?-->|\s)+/i, '');
+
+const svgSignals: Signal[] = [
+  { weight: 0.95, reason: 'Starts with an <svg> element', test: code => /^<svg[\s>]/i.test(stripMarkupPreamble(code)) },
+  { weight: 0.6, reason: 'Contains an <svg> element', test: code => /<svg[\s>][\s\S]*<\/svg>/i.test(code) },
+  { weight: 0.5, reason: 'Declares the SVG namespace', test: code => code.includes('http://www.w3.org/2000/svg') },
+  { weight: 0.3, reason: 'Starts with an XML declaration', test: code => code.trim().startsWith('<?xml') },
+  {
+    weight: 0.3,
+    reason: 'Uses SVG shape elements',
+    test: code => /<(?:circle|rect|path|polygon|polyline|ellipse|line|g|defs|text)[\s>/]/.test(code),
+  },
+];
+
+const htmlElements = /<(?:div|p|h[1-6]|ul|ol|table|form|button|span|section|main|header|canvas)[\s>]/i;
+
+const htmlSignals: Signal[] = [
+  { weight: 0.95, reason: 'Starts with an HTML doctype', test: code => /^<!DOCTYPE html/i.test(code.trim()) },
+  { weight: 0.9, reason: 'Has an <html> element', test: code => /<html[\s>]/i.test(code) },
+  { weight: 0.6, reason: 'Has <head> or <body> elements', test: code => /<(?:head|body)[\s>]/i.test(code) },
+  { weight: 0.4, reason: 'Has inline <script> or <style> elements', test: code => /<(?:script|style)[\s>]/i.test(code) },
+  { weight: 0.3, reason: 'Uses HTML elements', test: code => htmlElements.test(code) },
+];
+
+// Fenced code blocks in a markdown document may hold code of any other type
+const withoutCodeFences = (code: string) => code.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '');
+
+const markdownSignals: Signal[] = [
+  { weight: 0.6, reason: 'Has markdown headings', test: code => /^#{1,6}\s+\S/m.test(withoutCodeFences(code)) },
+  { weight: 0.5, reason: 'Has fenced code blocks', test: code => /^(```|~~~)[\w-]*\s*\n[\s\S]*?^\1\s*$/m.test(code) },
+  { weight: 0.4, reason: 'Has a markdown table', test: code => /^\|?\s*:?-{3,}:?\s*\|/m.test(code) },
+  { weight: 0.3, reason: 'Has markdown links', test: code => /\[[^\]\n]+\]\([^)\s]+\)/.test(code) },
+  { weight: 0.2, reason: 'Has markdown lists', test: code => /^\s*(?:[-*+]|\d+\.)\s+(?:\[[ x]\]\s+)?\S/m.test(withoutCodeFences(code)) },
+  { weight: 0.2, reason: 'Uses bold or italic text', test: code => /(\*\*|__)\S[^\n]*?\1/.test(withoutCodeFences(code)) },
+];
+
+const mermaidSignals: Signal[] = [
+  { weight: 0.95, reason: 'Starts with a Mermaid diagram declaration', test: code => mermaidDeclaration.test(firstStatement(code)) },
+  { weight: 0.3, reason: 'Has %% comments or directives', test: code => /^\s*%%/m.test(code) },
+  { weight: 0.2, reason: 'Uses Mermaid link arrows', test: code => /^\s*[\w-]+(?:\[.*\]|\(.*\)|\{.*\})?\s*(?:-->|---|==>|-\.->)/m.test(code) },
+];
+
+const reactSignals: Signal[] = [
+  { weight: 0.9, reason: "Imports from 'react'", test: code => /^\s*import\s[\s\S]*?from\s+['"]react['"]/m.test(code) },
+  { weight: 0.6, reason: 'Uses React hooks', test: code => /\buse(?:State|Effect|Memo|Ref|Callback|Reducer|Context|LayoutEffect)\s*[(<]/.test(code) },
+  { weight: 0.6, reason: 'Returns JSX', test: code => /\breturn\s*\(?\s*<[A-Za-z>]/.test(code) || /=>\s*\(?\s*<[A-Za-z>]/.test(code) },
+  { weight: 0.5, reason: 'Has a default export', test: code => /^\s*export\s+default\b/m.test(code) },
+  { weight: 0.4, reason: 'Declares a component', test: code => /^\s*(?:export\s+)?(?:function|const|class)\s+[A-Z]\w*/m.test(code) },
+  { weight: 0.4, reason: 'Uses className attributes', test: code => /\bclassName=/.test(code) },
+];
+
+// Evidence that rules a type out, scaling its confidence down
+interface Penalty {
+  factor: number;
+  reason: string;
+  test: (code: string) => boolean;
+}
+
+const looksLikeJavaScript: Penalty = {
+  factor: 0.3,
+  reason: 'Looks like JavaScript',
+  test: code => /^\s*(?:import|export|const|let|function|class)\s/m.test(code),
+};
+
+// Code shown inside a markdown document should not make the document look like code
+const hasCodeFences: Penalty = {
+  factor: 0.2,
+  reason: 'Contains markdown code fences',
+  test: code => /^(```|~~~)[\w-]*\s*$/m.test(code),
+};
+
+const isHtmlDocument: Penalty = {
+  factor: 0.3,
+  reason: 'Is an HTML document',
+  test: code => /^<!DOCTYPE html/i.test(code.trim()) || /<html[\s>]/i.test(code),
+};
+
+// A React component or HTML page that draws with inline SVG is not an SVG image
+const svgPenalties: Penalty[] = [
+  looksLikeJavaScript,
+  isHtmlDocument,
+  {
+    factor: 0.3,
+    reason: 'Has HTML elements outside the <svg>',
+    test: code => htmlElements.test(code.replace(/<svg[\s>][\s\S]*?<\/svg>/gi, '')),
+  },
+  hasCodeFences,
+];
+
+// JSX looks a lot like HTML
+const htmlPenalties: Penalty[] = [
+  { factor: 0.1, reason: 'Looks like JavaScript', test: code => /^(?:import|export|const|let|function|class)\s/.test(stripMarkupPreamble(code)) },
+  { factor: 0.3, reason: 'Uses JSX attributes', test: code => /\bclassName=|\bonClick=\{/.test(code) },
+  hasCodeFences,
+];
+
+const markdownPenalties: Penalty[] = [
+  { factor: 0.1, reason: 'Starts with markup or code', test: code => /^(?:<|import\s|export\s|const\s|function\s)/.test(code.trim()) },
+];
+
+const mermaidPenalties: Penalty[] = [looksLikeJavaScript, hasCodeFences];
+
+const reactPenalties: Penalty[] = [
+  { factor: 0.1, reason: 'Starts with markup', test: code => /^</.test(stripMarkupPreamble(code)) || code.trim().startsWith('<?xml') },
+  // Not valid in JSX, and a common sign of SVG or HTML markup
+  { factor: 0.3, reason: 'Contains HTML comments', test: code => code.includes('<!--') },
+  hasCodeFences,
+];
+
+const score = (type: ArtifactType, code: string, signals: Signal[], penalties: Penalty[]): TypeCandidate => {
+  const reasons: string[] = [];
+  // Independent signals combine so that each adds to the remaining doubt
+  let doubt = 1;
+  signals.forEach(signal => {
+    if (signal.test(code)) {
+      doubt *= 1 - signal.weight;
+      reasons.push(signal.reason);
+    }
+  });
+
+  let confidence = 1 - doubt;
+  if (confidence > 0) {
+    penalties.forEach(penalty => {
+      if (penalty.test(code)) {
+        confidence *= penalty.factor;
+        reasons.push(`${penalty.reason} (less likely)`);
+      }
+    });
+  }
+
+  return { type, confidence: Math.round(confidence * 100) / 100, reasons };
+};
+
+// Possible types for artifact code, most likely first. Types with no
+// evidence at all are left out, so the list may be empty.
+export function detectArtifactTypes(code: string): TypeCandidate[] {
+  if (!code.trim()) return [];
+
+  return [
+    score('svg', code, svgSignals, svgPenalties),
+    score('html', code, htmlSignals, htmlPenalties),
+    score('markdown', code, markdownSignals, markdownPenalties),
+    score('mermaid', code, mermaidSignals, mermaidPenalties),
+    score('react', code, reactSignals, reactPenalties),
+  ]
+    .filter(candidate => candidate.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// The most likely type, or null when no type reaches the given confidence
+export function detectArtifactType(code: string, threshold = DETECTION_THRESHOLD): ArtifactType | null {
+  const [best] = detectArtifactTypes(code);
+  return best && best.confidence >= threshold ? best.type : null;
+}
@@ -0,0 +1,73 @@
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers in the old and new text (absent for added/removed lines)
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Line-based diff using the longest common subsequence of lines.
+// Common leading and trailing lines are skipped before building the LCS table,
+// which keeps typical edits to large artifacts cheap.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+
+  for (let k = 0; k < prefix; k++) {
+    result.push({ type: 'equal', text: oldLines[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      result.push({ type: 'removed', text: a[i], oldLine: prefix + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j], newLine: prefix + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = oldLines.length - suffix + k;
+    const newIndex = newLines.length - suffix + k;
+    result.push({ type: 'equal', text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  }
+
+  return result;
+}
@@ -0,0 +1,250 @@
+import React from 'react';
+// Import libraries that we'll provide as globals to artifacts
+import * as LucideIcons from 'lucide-react';
+import * as Recharts from 'recharts';
+// Module map used to answer `require` calls from artifacts
+import { getAvailableModules, resolveArtifactModule } from './artifactModules';
+import { ARTIFACT_SOURCE_URL, isStylesheet, reactGlobals, runCompiledComponent } from './runComponent';
+// Import Babel for JSX transpilation
+import * as Babel from '@babel/standalone';
+import type { PluginObj } from '@babel/core';
+import { detectArtifactType } from './detectType';
+
+interface ArtifactImport {
+  source: string;
+  importedNames: string[];
+}
+
+// Babel plugin that records every import declaration so they can be validated
+// against the module map before the artifact is executed, and the names the
+// code uses without declaring them
+function collectImports(imports: ArtifactImport[], globalNames: string[]) {
+  return (): PluginObj => ({
+    visitor: {
+      Program(path) {
+        globalNames.push(...Object.keys(path.scope.globals));
+      },
+      ImportDeclaration(path) {
+        const importedNames: string[] = [];
+        
+        path.node.specifiers.forEach(specifier => {
+          if (specifier.type === 'ImportSpecifier') {
+            const imported = specifier.imported;
+            importedNames.push(imported.type === 'Identifier' ? imported.name : imported.value);
+          }
+        });
+        
+        imports.push({ source: path.node.source.value, importedNames });
+      }
+    }
+  });
+}
+
+// List available modules, collapsing the shadcn ui components into one entry
+function describeAvailableModules(): string {
+  const modules = getAvailableModules();
+  const uiComponents = modules
+    .filter(name => name.startsWith('@/components/ui/'))
+    .map(name => name.substring('@/components/ui/'.length));
+  const otherModules = modules.filter(name => !name.startsWith('@/components/ui/'));
+  
+  return [...otherModules, `@/components/ui/{${uiComponents.join(', ')}}`].join(', ');
+}
+
+// Check that every imported module and named binding exists in the module map
+function validateImports(imports: ArtifactImport[]): void {
+  for (const { source, importedNames } of imports) {
+    if (isStylesheet(source)) continue;
+    
+    const moduleExports = resolveArtifactModule(source);
+    if (!moduleExports) {
+      throw new Error(
+        `Module "${source}" is not available to artifacts. ` +
+        `Available modules: ${describeAvailableModules()}`
+      );
+    }
+    
+    const missing = importedNames.filter(name => !(name in moduleExports));
+    if (missing.length > 0) {
+      const exportNames = Object.keys(moduleExports).filter(name => name !== 'default');
+      throw new Error(
+        `${missing.map(name => `"${name}"`).join(', ')} ${missing.length > 1 ? 'are' : 'is'} not exported by '${source}'.` +
+        (exportNames.length <= 100 ? ` Available exports: ${exportNames.join(', ')}` : '')
+      );
+    }
+  }
+}
+
+// Name of the last top-level component declared in the source, used when the
+// artifact has no default export
+function findComponentName(source: string): string | null {
+  const declarations = [...source.matchAll(/^(?:export\s+)?(?:function|class|const|let|var)\s+([A-Z][\w$]*)/gm)];
+  return declarations.length > 0 ? declarations[declarations.length - 1][1] : null;
+}
+
+export type CodeLanguage = 'tsx' | 'jsx';
+
+// Detect whether React artifact code uses TypeScript syntax by checking if it
+// parses as plain JSX. Code that parses neither way is treated as TSX, since
+// that is what Claude generates most of the time.
+export function detectCodeLanguage(code: string): CodeLanguage {
+  try {
+    Babel.packages.parser.parse(code, { sourceType: 'module', plugins: ['jsx'] });
+    return 'jsx';
+  } catch {
+    return 'tsx';
+  }
+}
+
+// Strip TypeScript syntax (annotations, interfaces, generics, `as` casts,
+// enums) and compile JSX, leaving plain ES module JavaScript
+function transpileToJavaScript(code: string): string {
+  const result = Babel.transform(code, {
+    presets: [
+      ['typescript', { isTSX: true, allExtensions: true }],
+      'react'
+    ],
+    filename: 'artifact.tsx', // Provide a filename to satisfy Babel
+    // Keep statements on their original lines so that stack traces can be mapped back
+    retainLines: true
+  }).code;
+  
+  if (!result) {
+    throw new Error('Failed to transform component code');
+  }
+  
+  return result;
+}
+
+// Name used for the artifact's own source in mapped stack traces
+const ARTIFACT_FILE_NAME = 'artifact.tsx';
+
+// Number of lines that the engine puts before the body of a `new Function`
+// (V8 and SpiderMonkey differ), measured once by throwing from a probe
+let functionBodyOffset: number | null = null;
+
+function getFunctionBodyOffset(): number {
+  if (functionBodyOffset === null) {
+    const probeStack: string = new Function('return new Error().stack;\n//# sourceURL=artifact-probe.js')() || '';
+    const match = probeStack.match(/artifact-probe\.js:(\d+)/);
+    functionBodyOffset = match ? Number(match[1]) - 1 : 2;
+  }
+  return functionBodyOffset;
+}
+
+// V8 frames start with "at", SpiderMonkey and JavaScriptCore frames are "name@url:line:column"
+const isStackFrame = (text: string) => /^\s*at\s/.test(text) || /^\S*@\S+:\d+:\d+$/.test(text);
+
+export interface MappedStack {
+  stack: string;
+  // Artifact source line of the innermost artifact frame, 1-based
+  line?: number;
+}
+
+// Rewrite stack frames that point into the executed artifact to lines of the
+// artifact's source and drop the frames of the sandbox and React internals.
+// Stacks without artifact frames are returned unchanged.
+export function mapArtifactStack(stack: string): MappedStack {
+  const framePattern = new RegExp(`${ARTIFACT_SOURCE_URL.replace('.', '\\.')}:(\\d+):(\\d+)`);
+  // The wrapper's first line precedes the artifact code
+  const offset = getFunctionBodyOffset() + 1;
+
+  let line: number | undefined;
+  const lines = stack.split('\n');
+  const mapped = lines
+    .map(text => {
+      const match = text.match(framePattern);
+      if (!match) return text;
+      const sourceLine = Number(match[1]) - offset;
+      line ??= sourceLine;
+      return text.replace(framePattern, `${ARTIFACT_FILE_NAME}:${sourceLine}:${match[2]}`);
+    })
+    // Keep the message (lines that are not frames) and the artifact's own frames
+    .filter(text => text.includes(ARTIFACT_FILE_NAME) || !isStackFrame(text));
+
+  return line === undefined ? { stack } : { stack: mapped.join('\n'), line };
+}
+
+export interface CompiledComponent {
+  // CommonJS function body, run by runCompiledComponent
+  code: string;
+  // Modules the artifact imports, stylesheets excluded
+  imports: string[];
+  // Names the artifact uses without declaring or importing them
+  globalNames: string[];
+}
+
+// Compile artifact code to a CommonJS function body, checking its imports
+// against the module map
+export function compileComponentCode(code: string): CompiledComponent {
+  let transformedCode: string | null | undefined;
+  const imports: ArtifactImport[] = [];
+  const globalNames: string[] = [];
+  
+  try {
+    // Strip types and JSX first, so only imports that survive TypeScript's
+    // type-only import elision are resolved against the module map
+    const javaScript = transpileToJavaScript(code);
+    
+    // Transform ES module syntax to CommonJS using Babel
+    transformedCode = Babel.transform(javaScript, {
+      plugins: [collectImports(imports, globalNames), 'transform-modules-commonjs'],
+      filename: 'artifact.js',
+      retainLines: true
+    }).code;
+  } catch (err) {
+    // Check if this looks like it might actually be SVG, Mermaid, HTML or markdown
+    const detectedType = detectArtifactType(code);
+    if (detectedType === 'svg') {
+      throw new Error('This appears to be SVG code. Try changing the artifact type to "SVG Image".');
+    } else if (detectedType === 'mermaid') {
+      throw new Error('This appears to be Mermaid diagram code. Try changing the artifact type to "Mermaid Diagram".');
+    } else if (detectedType === 'html') {
+      throw new Error('This appears to be an HTML page. Try changing the artifact type to "HTML Page".');
+    } else if (detectedType === 'markdown') {
+      throw new Error('This appears to be a markdown document. Try changing the artifact type to "Markdown Document".');
+    } else if (code.includes('<!--')) {
+      throw new Error('HTML comments (<!-- -->) are not supported in React components. If this is SVG code, change the artifact type to "SVG Image".');
+    }
+    
+    // Re-throw the original error
+    throw err;
+  }
+  
+  if (!transformedCode) {
+    throw new Error('Failed to transform component code');
+  }
+  
+  validateImports(imports);
+  
+  // Fall back to the last declared component when there is no default export
+  const fallbackName = findComponentName(code);
+  const fallbackExport = fallbackName
+    ? `if (!module.exports.default && typeof ${fallbackName} !== 'undefined') { module.exports.default = ${fallbackName}; }`
+    : '';
+  
+  // The inner function gives the artifact its own scope, so its top-level
+  // declarations may shadow the provided globals. The artifact code starts on
+  // the second line of the function body (see mapArtifactStack).
+  const wrappedCode = [
+    '(function () {',
+    transformedCode,
+    fallbackExport,
+    '})();',
+    `//# sourceURL=${ARTIFACT_SOURCE_URL}`
+  ].join('\n');
+  
+  return {
+    code: wrappedCode,
+    imports: imports.map(({ source }) => source).filter(source => !isStylesheet(source)),
+    globalNames
+  };
+}
+
+// Function to execute the component code and return the rendered element
+export function executeComponentCode(code: string): React.ReactElement {
+  // Lucide icons and Recharts components are available even without
+  // explicit imports (artifacts frequently rely on these)
+  const globals = { ...LucideIcons, ...Recharts, ...reactGlobals };
+  return runCompiledComponent(compileComponentCode(code).code, resolveArtifactModule, globals);
+}
@@ -0,0 +1,313 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { Artifact, ArtifactFolder, PersistedArtifactState } from './store';
+import type { ArtifactStorageBackend } from './storage';
+import { getArtifactFilePath, parseArtifactFile, serializeArtifactFile } from './artifactFiles';
+import { CURRENT_SCHEMA_VERSION, folderSchema, migrateArtifacts, type ArtifactIssue } from './schema';
+import { hashString } from './utils';
+
+// Storage backend that keeps every artifact as a file in a directory on disk,
+// through the dev-server file API (plugins/artifactFileApi.ts). Folders map
+// to subdirectories and metadata is stored as front-matter at the top of each
+// file; folder details go to a .folders.json file. Revision history is only
+// kept for the current session; the files are meant to be versioned with git.
+
+const API_URL = '/api/files';
+
+interface FileEntry {
+  path: string;
+  name: string;
+  lastModified: string;
+  size: number;
+  content?: string;
+}
+
+// The last content written to (or read from) an artifact's file
+interface WrittenFile {
+  artifact: Artifact;
+  path: string;
+  content: string;
+}
+
+const typeFromFileName = (fileName: string): Artifact['type'] => {
+  switch (fileName.split('.').pop()) {
+    case 'svg':
+      return 'svg';
+    case 'mmd':
+      return 'mermaid';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+    default:
+      return 'react';
+  }
+};
+
+const fileUrl = (path: string) => `${API_URL}/content?path=${encodeURIComponent(path)}`;
+
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`File API request failed (${response.status}): ${error}`);
+  }
+  return response;
+}
+
+export function createFolderBackend(directory: string): ArtifactStorageBackend {
+  const writtenFiles = new Map<string, WrittenFile>();
+  // Revisions are not written to files; keep them while the page is open
+  const revisionCache = new Map<string, Artifact['revisions']>();
+  // The folder details last written to (or read from) .folders.json
+  let writtenFolders: ArtifactFolder[] = [];
+
+  // Writes of the initial empty state before the files are loaded are ignored
+  let hydrated = false;
+  let pendingValue: StorageValue<PersistedArtifactState> | null = null;
+  let flushing: Promise<void> | null = null;
+
+  const writeFile = (path: string, content: string) =>
+    request(fileUrl(path), { method: 'PUT', headers: { 'Content-Type': 'text/plain' }, body: content });
+
+  const deleteFile = (path: string) => request(fileUrl(path), { method: 'DELETE' });
+
+  // Choose a file for each artifact. Existing files are kept unless the title,
+  // folder or type changed; new paths get the id appended on collisions.
+  const assignPaths = (artifacts: Artifact[]) => {
+    const paths = new Map<string, string>();
+    const taken = new Set<string>();
+
+    artifacts.forEach(artifact => {
+      const previous = writtenFiles.get(artifact.id);
+      if (
+        previous &&
+        previous.artifact.title === artifact.title &&
+        previous.artifact.folder === artifact.folder &&
+        previous.artifact.type === artifact.type &&
+        !taken.has(previous.path.toLowerCase())
+      ) {
+        paths.set(artifact.id, previous.path);
+        taken.add(previous.path.toLowerCase());
+      }
+    });
+
+    artifacts.forEach(artifact => {
+      if (paths.has(artifact.id)) return;
+      let path = getArtifactFilePath(artifact);
+      if (taken.has(path.toLowerCase())) {
+        path = path.replace(/(\.[^./]+)$/, `-${artifact.id}$1`);
+      }
+      paths.set(artifact.id, path);
+      taken.add(path.toLowerCase());
+    });
+
+    return paths;
+  };
+
+  const writeSnapshot = async (value: StorageValue<PersistedArtifactState>) => {
+    const artifacts = value.state.artifacts.filter(artifact => typeof artifact?.id === 'string');
+    const paths = assignPaths(artifacts);
+
+    for (const artifact of artifacts) {
+      if (artifact.revisions) {
+        revisionCache.set(artifact.id, artifact.revisions);
+      }
+
+      const previous = writtenFiles.get(artifact.id);
+      const path = paths.get(artifact.id)!;
+      if (previous?.artifact === artifact && previous.path === path) continue;
+
+      const content = serializeArtifactFile(artifact, CURRENT_SCHEMA_VERSION);
+      if (previous?.path !== path || previous.content !== content) {
+        await writeFile(path, content);
+      }
+      writtenFiles.set(artifact.id, { artifact, path, content });
+
+      // Remove the old file of a renamed or moved artifact, unless another artifact took it over
+      if (previous && previous.path !== path
+        && !Array.from(writtenFiles.values()).some(file => file.path === previous.path)) {
+        await deleteFile(previous.path);
+      }
+    }
+
+    const currentIds = new Set(artifacts.map(artifact => artifact.id));
+    for (const [id, file] of Array.from(writtenFiles.entries())) {
+      if (currentIds.has(id)) continue;
+      writtenFiles.delete(id);
+      revisionCache.delete(id);
+      if (!Array.from(writtenFiles.values()).some(other => other.path === file.path)) {
+        await deleteFile(file.path);
+      }
+    }
+
+    const folders = value.state.folders || [];
+    if (folders !== writtenFolders) {
+      await request(`${API_URL}/folders`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(folders, null, 2),
+      });
+      writtenFolders = folders;
+    }
+  };
+
+  const flush = async () => {
+    while (pendingValue) {
+      const value = pendingValue;
+      pendingValue = null;
+      try {
+        await writeSnapshot(value);
+      } catch (err) {
+        console.error(`Failed to save artifacts to ${directory}:`, err);
+      }
+    }
+  };
+
+  // Folder details from .folders.json; entries edited into something invalid are skipped
+  const readFolders = async (): Promise<ArtifactFolder[]> => {
+    try {
+      const response = await request(`${API_URL}/folders`);
+      const { folders } = await response.json() as { folders: unknown };
+      return Array.isArray(folders)
+        ? folders.flatMap(folder => {
+          const result = folderSchema.safeParse(folder);
+          if (!result.success) console.warn('Invalid folder in .folders.json:', folder);
+          return result.success ? [result.data] : [];
+        })
+        : [];
+    } catch (err) {
+      console.error(`Failed to load folders from ${directory}:`, err);
+      return [];
+    }
+  };
+
+  // Turn the files into artifacts, reporting files that are not valid artifacts
+  const readArtifacts = (files: FileEntry[]) => {
+    const artifacts: Artifact[] = [];
+    const issues: ArtifactIssue[] = [];
+    const pathsById = new Map<string, string>();
+
+    files.forEach((file, index) => {
+      const content = file.content || '';
+      const { metadata, code } = parseArtifactFile(file.name, content);
+      const { schemaVersion, ...fields } = metadata;
+      const folder = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : undefined;
+
+      // Files added by hand have no front-matter; derive what we can from the file itself
+      const record = {
+        id: `file-${hashString(file.path)}`,
+        title: file.name.replace(/\.[^.]+$/, ''),
+        type: typeFromFileName(file.name),
+        tags: [],
+        createdAt: file.lastModified,
+        updatedAt: file.lastModified,
+        ...fields,
+        folder,
+        code,
+      };
+
+      const result = migrateArtifacts([record], schemaVersion ?? CURRENT_SCHEMA_VERSION);
+      result.issues.forEach(issue => issues.push({ ...issue, index, title: issue.title || file.path }));
+
+      result.artifacts.forEach(parsed => {
+        const duplicateOf = pathsById.get(parsed.id);
+        if (duplicateOf) {
+          issues.push({
+            index,
+            id: parsed.id,
+            title: file.path,
+            problems: [`id: "${parsed.id}" is also used by ${duplicateOf}`],
+            data: record,
+          });
+          return;
+        }
+        pathsById.set(parsed.id, file.path);
+
+        const revisions = revisionCache.get(parsed.id);
+        const artifact = revisions ? { ...parsed, revisions } : parsed;
+        artifacts.push(artifact);
+        writtenFiles.set(artifact.id, { artifact, path: file.path, content });
+      });
+    });
+
+    return { artifacts, issues };
+  };
+
+  const storage: PersistStorage<PersistedArtifactState> = {
+    getItem: async () => {
+      hydrated = false;
+      try {
+        // Let pending writes land first so that they are not reverted
+        await flushing;
+        const response = await request(`${API_URL}?content=true`);
+        const { files } = await response.json() as { files: FileEntry[] };
+
+        writtenFiles.clear();
+        const { artifacts, issues } = readArtifacts(files);
+        issues.forEach(issue => console.warn('Invalid artifact file:', issue.title, issue.problems));
+        const folders = await readFolders();
+        writtenFolders = folders;
+
+        return {
+          version: CURRENT_SCHEMA_VERSION,
+          state: { artifacts, invalidArtifacts: issues, folders },
+        };
+      } catch (err) {
+        // Never reject: zustand would otherwise never finish hydrating
+        console.error(`Failed to load artifacts from ${directory}:`, err);
+        return null;
+      } finally {
+        hydrated = true;
+      }
+    },
+
+    setItem: async (_name, value) => {
+      if (!hydrated) return;
+      pendingValue = value;
+      if (!flushing) {
+        flushing = flush().finally(() => {
+          flushing = null;
+        });
+      }
+      return flushing;
+    },
+
+    // The files are the user's data; never remove them wholesale
+    removeItem: async () => {},
+  };
+
+  return {
+    name: 'folder',
+    storage,
+
+    // Files are always loaded with their content
+    loadContent: async () => ({}),
+
+    estimateUsage: async () => {
+      const encoder = new TextEncoder();
+      let usedBytes = 0;
+      writtenFiles.forEach(file => {
+        usedBytes += encoder.encode(file.content).length;
+      });
+      return { backend: 'folder', location: directory, usedBytes };
+    },
+
+    subscribe: (onExternalChange) => {
+      const events = new EventSource(`${API_URL}/events`);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      // Editors and git checkouts often touch many files at once
+      events.onmessage = () => {
+        clearTimeout(timer);
+        timer = setTimeout(onExternalChange, 300);
+      };
+
+      return () => {
+        clearTimeout(timer);
+        events.close();
+      };
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type { Artifact, ArtifactFolder } from './store';
+
+// Colors a folder can be marked with
+export const FOLDER_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'purple', 'pink'] as const;
+export type FolderColor = typeof FOLDER_COLORS[number];
+
+const folderColorClasses: Record<FolderColor, string> = {
+  gray: 'text-gray-500',
+  red: 'text-red-500',
+  orange: 'text-orange-500',
+  amber: 'text-amber-500',
+  green: 'text-green-600',
+  teal: 'text-teal-600',
+  blue: 'text-blue-500',
+  purple: 'text-purple-500',
+  pink: 'text-pink-500',
+};
+
+// Icon color of a folder; folders without a color use the default blue
+export const folderIconClass = (color?: FolderColor) => color ? folderColorClasses[color] : 'text-blue-500';
+
+// A folder in the tree, whether it was created explicitly or only exists
+// because artifacts are in it
+export interface FolderNode {
+  path: string;
+  name: string;
+  // Description and color, for folders that have them
+  folder?: ArtifactFolder;
+  children: FolderNode[];
+  // Artifacts directly in this folder, and in it and all its subfolders
+  artifactCount: number;
+  totalCount: number;
+}
+
+// Folder paths use '/' between levels, without empty levels or surrounding spaces
+export const normalizeFolderPath = (path: string) =>
+  path
+    .replace(/\\/g, '/')
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .join('/');
+
+export const folderName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// '' for top-level folders
+export const parentFolderPath = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+export const joinFolderPath = (parent: string, name: string) => parent ? `${parent}/${name}` : name;
+
+// Whether a path is the folder itself or inside it
+export const isInFolder = (path: string, folder: string) => path === folder || path.startsWith(folder + '/');
+
+// Move a path that is in `from` to the same place in `to`
+export const replaceFolderPrefix = (path: string, from: string, to: string) =>
+  path === from ? to : joinFolderPath(to, path.slice(from.length + 1));
+
+// All folder paths, including the parents of nested folders
+export function collectFolderPaths(folders: ArtifactFolder[], artifacts: Artifact[]): string[] {
+  const paths = new Set<string>();
+  const add = (path: string) => {
+    for (let current = path; current && !paths.has(current); current = parentFolderPath(current)) {
+      paths.add(current);
+    }
+  };
+
+  folders.forEach(folder => add(folder.path));
+  artifacts.forEach(artifact => add(normalizeFolderPath(artifact.folder || '')));
+  return Array.from(paths).sort();
+}
+
+// The folder hierarchy, with top-level folders as the roots
+export function buildFolderTree(folders: ArtifactFolder[], artifacts: Artifact[]): FolderNode[] {
+  const nodes = new Map<string, FolderNode>();
+  const foldersByPath = new Map(folders.map(folder => [folder.path, folder]));
+
+  collectFolderPaths(folders, artifacts).forEach(path => {
+    nodes.set(path, {
+      path,
+      name: folderName(path),
+      folder: foldersByPath.get(path),
+      children: [],
+      artifactCount: 0,
+      totalCount: 0,
+    });
+  });
+
+  artifacts.forEach(artifact => {
+    const path = normalizeFolderPath(artifact.folder || '');
+    if (!path) return;
+    nodes.get(path)!.artifactCount++;
+    for (let current = path; current; current = parentFolderPath(current)) {
+      nodes.get(current)!.totalCount++;
+    }
+  });
+
+  const roots: FolderNode[] = [];
+  // Paths are sorted, so parents come before their children
+  nodes.forEach(node => {
+    const parent = nodes.get(parentFolderPath(node.path));
+    (parent ? parent.children : roots).push(node);
+  });
+  return roots;
+}
@@ -0,0 +1,101 @@
+import { Marked, type Token } from 'marked';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import css from 'highlight.js/lib/languages/css';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import markdownLanguage from 'highlight.js/lib/languages/markdown';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+import { sanitizeHtml } from './sanitize';
+
+// Languages highlighted in code blocks; each also registers its aliases
+// (jsx, tsx, html, svg, sh, py, yml, ...)
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('markdown', markdownLanguage);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+hljs.registerLanguage('yaml', yaml);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A highlighted code block; code in languages without highlighting is escaped as-is
+export function highlightCode(code: string, language: string): string {
+  const highlighted = hljs.getLanguage(language)
+    ? hljs.highlight(code, { language }).value
+    : escapeHtml(code);
+  return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlighted}</code></pre>`;
+}
+
+// GitHub flavored markdown (tables, task lists, strikethrough, autolinks)
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    code({ text, lang }) {
+      return highlightCode(text, (lang || '').split(/\s+/)[0]) + '\n';
+    },
+  },
+});
+
+// A rendered part of a markdown document: sanitized HTML, or a Mermaid
+// diagram from a ```mermaid fence, which is rendered separately
+export type MarkdownBlock =
+  | { type: 'html'; html: string }
+  | { type: 'mermaid'; code: string };
+
+const isMermaidFence = (token: Token) => token.type === 'code' && token.lang?.trim() === 'mermaid';
+
+// Render a markdown document. Top-level Mermaid fences split the document, so
+// that the diagrams can be placed between the HTML parts in order.
+export function renderMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let pending: Token[] = [];
+
+  const flush = () => {
+    if (pending.length > 0) {
+      blocks.push({ type: 'html', html: sanitizeHtml(markdown.parser(pending)) });
+      pending = [];
+    }
+  };
+
+  markdown.lexer(source).forEach(token => {
+    if (isMermaidFence(token)) {
+      flush();
+      blocks.push({ type: 'mermaid', code: (token as { text: string }).text });
+    } else {
+      pending.push(token);
+    }
+  });
+  flush();
+
+  return blocks;
+}
+
+// Location of the ```mermaid fences in a markdown document, by the 1-based
+// line their content starts on
+export function findMermaidFences(source: string): { line: number; code: string }[] {
+  const fences: { line: number; code: string }[] = [];
+  const lines = source.split('\n');
+
+  for (let index = 0; index < lines.length; index++) {
+    const open = lines[index].match(/^(\s{0,3})(`{3,}|~{3,})\s*mermaid\s*$/);
+    if (!open) continue;
+
+    const close = new RegExp(`^\\s{0,3}${open[2][0]}{${open[2].length},}\\s*$`);
+    const end = lines.findIndex((line, lineIndex) => lineIndex > index && close.test(line));
+    const last = end === -1 ? lines.length : end;
+    fences.push({ line: index + 2, code: lines.slice(index + 1, last).join('\n') });
+    index = last;
+  }
+
+  return fences;
+}
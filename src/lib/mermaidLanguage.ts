@@ -0,0 +1,48 @@
+import { StreamLanguage, type StreamParser } from '@codemirror/language';
+
+// Diagram declarations and the keywords used inside them
+const keywords = new Set([
+  'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'stateDiagram', 'stateDiagram-v2',
+  'erDiagram', 'journey', 'gantt', 'pie', 'gitGraph', 'mindmap', 'timeline', 'quadrantChart',
+  'requirementDiagram', 'C4Context', 'sankey-beta', 'xychart-beta', 'block-beta', 'architecture-beta',
+  'subgraph', 'end', 'direction', 'participant', 'actor', 'loop', 'alt', 'else', 'opt', 'par', 'and',
+  'critical', 'break', 'rect', 'note', 'Note', 'over', 'left', 'right', 'of', 'activate', 'deactivate',
+  'autonumber', 'class', 'classDef', 'style', 'linkStyle', 'click', 'state', 'section', 'title',
+  'dateFormat', 'axisFormat', 'excludes', 'commit', 'branch', 'checkout', 'merge',
+]);
+
+const directions = new Set(['TB', 'TD', 'BT', 'RL', 'LR']);
+
+// Small tokenizer covering the syntax shared by most diagram types
+const mermaidParser: StreamParser<null> = {
+  name: 'mermaid',
+  token(stream) {
+    if (stream.eatSpace()) return null;
+    if (stream.match('%%')) {
+      stream.skipToEnd();
+      return 'comment';
+    }
+    if (stream.match(/^"[^"]*"?/)) return 'string';
+    // Links and messages: -->, ---, -.->, ==>, ->>, --x, <|--, ...
+    if (stream.match(/^(<\|?|[ox])?(-{2,}|={2,}|-\.+-?|-+>>?|-\)|-x)(>|\|>|[ox])?/)) return 'operator';
+    if (stream.match(/^\|[^|]*\|/)) return 'string';
+    if (stream.match(/^[[\](){}]/)) return 'bracket';
+    if (stream.match(/^:::?/)) return 'punctuation';
+    if (stream.match(/^\d+(\.\d+)?/)) return 'number';
+
+    const word = stream.match(/^[\w-]+/) as RegExpMatchArray | null;
+    if (word) {
+      if (keywords.has(word[0])) return 'keyword';
+      if (directions.has(word[0])) return 'atom';
+      return 'variableName';
+    }
+
+    stream.next();
+    return null;
+  },
+  languageData: {
+    commentTokens: { line: '%%' },
+  },
+};
+
+export const mermaidLanguage = StreamLanguage.define(mermaidParser);
@@ -0,0 +1,28 @@
+import mermaid from 'mermaid';
+
+let initialized = false;
+
+// Render Mermaid diagram code to SVG markup. Throws on syntax errors.
+export async function renderMermaidSvg(code: string): Promise<string> {
+  if (!initialized) {
+    mermaid.initialize({
+      startOnLoad: false,
+      theme: 'default',
+      securityLevel: 'strict',
+      flowchart: {
+        htmlLabels: true,
+        curve: 'basis',
+      },
+      fontFamily: 'sans-serif',
+    });
+    initialized = true;
+  }
+
+  // Generate a unique ID for this diagram
+  const id = `mermaid-${Math.random().toString(36).substring(2, 11)}`;
+
+  // Parse first to report syntax errors
+  await mermaid.parse(code);
+  const { svg } = await mermaid.render(id, code);
+  return svg;
+}
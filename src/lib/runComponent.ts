@@ -0,0 +1,86 @@
+import React from 'react';
+
+// Running compiled React artifacts. Kept apart from the compiler in
+// executeArtifact.ts, so that standalone exports can run artifacts without
+// shipping Babel.
+
+export type ModuleExports = Record<string, unknown>;
+
+// Name under which the executed artifact code appears in stack traces
+export const ARTIFACT_SOURCE_URL = 'artifact-source.js';
+
+// Stylesheet imports have no runtime value inside the gallery
+export const isStylesheet = (specifier: string) => /\.(css|scss|sass|less)$/.test(specifier);
+
+// React hooks that artifacts may use without importing them
+export const reactGlobals: Record<string, unknown> = {
+  React,
+  useState: React.useState,
+  useEffect: React.useEffect,
+  useRef: React.useRef,
+  useCallback: React.useCallback,
+  useMemo: React.useMemo,
+  useContext: React.useContext,
+  useReducer: React.useReducer,
+  useLayoutEffect: React.useLayoutEffect
+};
+
+// Normalize the different ways an artifact may spell the same module
+export const normalizeModuleSpecifier = (specifier: string): string => {
+  return specifier
+    .trim()
+    .replace(/^(src|~)\//, '@/')
+    .replace(/\.(tsx?|jsx?)$/, '');
+};
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+// Create a CommonJS `require` that answers from the given module lookup
+function createRequire(resolve: (specifier: string) => ModuleExports | undefined): (specifier: string) => unknown {
+  const cache: Record<string, unknown> = {};
+
+  return (specifier: string) => {
+    if (isStylesheet(specifier)) return {};
+
+    if (!(specifier in cache)) {
+      const moduleExports = resolve(specifier);
+      if (!moduleExports) {
+        throw new Error(`Module "${specifier}" is not available to artifacts`);
+      }
+
+      // Mark as an ES module so Babel's interop helpers use `default` as-is
+      cache[specifier] = {
+        ...moduleExports,
+        default: 'default' in moduleExports ? moduleExports.default : moduleExports,
+        __esModule: true
+      };
+    }
+
+    return cache[specifier];
+  };
+}
+
+// Run artifact code produced by compileComponentCode and return the element of
+// its component. `globals` are available to the code without imports.
+export function runCompiledComponent(
+  code: string,
+  resolve: (specifier: string) => ModuleExports | undefined,
+  globals: Record<string, unknown>
+): React.ReactElement {
+  const globalNames = Object.keys(globals).filter(name =>
+    isIdentifier(name) && !['require', 'module', 'exports', 'default'].includes(name));
+
+  const module: { exports: Record<string, unknown> } = { exports: {} };
+  const componentFn = new Function('require', 'module', 'exports', ...globalNames, code);
+  componentFn(createRequire(resolve), module, module.exports, ...globalNames.map(name => globals[name]));
+
+  const Component = module.exports.default;
+
+  // Check if we got a valid component
+  if (!Component || (typeof Component !== 'function' && typeof Component !== 'object')) {
+    throw new Error('No component found in the artifact code. Make sure the component is exported with `export default`.');
+  }
+
+  // Return the React element
+  return React.createElement(Component as React.ElementType);
+}
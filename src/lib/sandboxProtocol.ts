@@ -0,0 +1,75 @@
+// Messages exchanged between the gallery and the sandboxed artifact iframe.
+// The iframe runs with an opaque origin, so both sides post with targetOrigin
+// '*' and instead verify `event.source` on receipt.
+
+export const SANDBOX_URL = `${import.meta.env.BASE_URL}sandbox.html`;
+
+// Sent by the gallery to the sandbox
+export type HostCommand =
+  | { type: 'render'; code: string }
+  // Remount the current artifact, discarding its state
+  | { type: 'reset' }
+  // Take a thumbnail image of the rendered artifact
+  | { type: 'capture' };
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// A console call made by the artifact
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+  timestamp: number;
+  // Stack mapped to artifact source lines (warnings and errors only)
+  stack?: string;
+  line?: number;
+}
+
+// Sent by the sandbox to the gallery
+export type SandboxEvent =
+  | { type: 'ready' }
+  | { type: 'rendered' }
+  | { type: 'resize'; height: number }
+  | { type: 'console'; entry: ConsoleEntry }
+  // Reply to 'capture'; null when the artifact could not be captured
+  | { type: 'captured'; dataUrl: string | null }
+  | {
+      type: 'error';
+      phase: 'compile' | 'runtime';
+      message: string;
+      // Runtime errors only: stack mapped to artifact source lines
+      stack?: string;
+      line?: number;
+    };
+
+export type HostMessage = HostCommand & { source: 'artifact-host' };
+export type SandboxMessage = SandboxEvent & { source: 'artifact-sandbox' };
+
+export function isHostMessage(data: unknown): data is HostMessage {
+  return typeof data === 'object' && data !== null &&
+    (data as { source?: unknown }).source === 'artifact-host';
+}
+
+export function isSandboxMessage(data: unknown): data is SandboxMessage {
+  return typeof data === 'object' && data !== null &&
+    (data as { source?: unknown }).source === 'artifact-sandbox';
+}
+
+// Reports the document height of an HTML page shown in an iframe to the page
+// that embeds it, using the sandbox's resize message
+const RESIZE_SCRIPT = `<script>
+(function () {
+  var post = function () {
+    parent.postMessage({ source: 'artifact-sandbox', type: 'resize', height: document.documentElement.scrollHeight }, '*');
+  };
+  new ResizeObserver(post).observe(document.documentElement);
+  window.addEventListener('load', post);
+})();
+</script>`;
+
+// Add the resize script at the end of the body, or of the fragment without one
+export const withResizeScript = (code: string) => {
+  const bodyEnd = code.search(/<\/body>/i);
+  return bodyEnd === -1
+    ? code + RESIZE_SCRIPT
+    : code.slice(0, bodyEnd) + RESIZE_SCRIPT + code.slice(bodyEnd);
+};
@@ -0,0 +1,25 @@
+import DOMPurify from 'dompurify';
+
+// Fix namespaced attributes, which DOMPurify does not check on its own
+DOMPurify.addHook('afterSanitizeAttributes', function(node) {
+  if (node.hasAttribute('xlink:href')) {
+    node.setAttribute('xlink:href',
+      DOMPurify.sanitize(node.getAttribute('xlink:href')!)
+    );
+  }
+});
+
+// SVG markup, with scripts and event handlers removed
+export function sanitizeSvg(code: string): string {
+  return DOMPurify.sanitize(code, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+    ADD_TAGS: ['svg', 'path', 'circle', 'rect', 'line', 'polyline', 'polygon', 'ellipse', 'g', 'text', 'tspan']
+  });
+}
+
+// HTML rendered from markdown, which may contain raw HTML and inline SVG
+export function sanitizeHtml(html: string): string {
+  return DOMPurify.sanitize(html, {
+    USE_PROFILES: { html: true, svg: true, svgFilters: true }
+  });
+}
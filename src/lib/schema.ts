@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import type { Artifact, ArtifactFolder, ArtifactRevision, ArtifactSource } from './store';
+import { FOLDER_COLORS } from './folders';
+import { hashString } from './utils';
+
+// Version of the artifact data format, stored with the persisted store and in
+// export files. Version 0 is the original unversioned format (a bare array of
+// artifacts in exports). Bump it together with a new entry in `migrations`.
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// Used for missing timestamps so that migrations stay deterministic
+const LEGACY_DATE = '1970-01-01T00:00:00.000Z';
+
+const dateString = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+export const artifactTypeSchema = z.enum(['react', 'svg', 'mermaid', 'html', 'markdown']);
+
+export const artifactRevisionSchema: z.ZodType<ArtifactRevision> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  type: artifactTypeSchema,
+  tags: z.array(z.string()),
+  folder: z.string().optional(),
+  code: z.string(),
+  createdAt: dateString,
+  note: z.string().optional(),
+});
+
+export const artifactSourceSchema: z.ZodType<ArtifactSource> = z.object({
+  conversation: z.string(),
+  conversationId: z.string().optional(),
+  date: dateString.optional(),
+});
+
+export const artifactSchema: z.ZodType<Artifact> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  type: artifactTypeSchema,
+  tags: z.array(z.string()),
+  folder: z.string().optional(),
+  code: z.string(),
+  createdAt: dateString,
+  updatedAt: dateString,
+  revisions: z.array(artifactRevisionSchema).optional(),
+  thumbnail: z.object({
+    codeHash: z.string(),
+    dataUrl: z.string().startsWith('data:image/'),
+  }).optional(),
+  deletedAt: dateString.optional(),
+  source: artifactSourceSchema.optional(),
+});
+
+export const folderSchema: z.ZodType<ArtifactFolder> = z.object({
+  path: z.string().min(1),
+  description: z.string().optional(),
+  color: z.enum(FOLDER_COLORS).optional(),
+  createdAt: dateString,
+});
+
+// A stored or imported artifact that failed validation
+export interface ArtifactIssue {
+  index: number;
+  id?: string;
+  title?: string;
+  problems: string[];
+  // The raw record, kept so that nothing is silently lost
+  data: unknown;
+}
+
+export interface MigrationResult {
+  artifacts: Artifact[];
+  issues: ArtifactIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+// migrations[n] upgrades a single raw artifact record from version n to n + 1
+const migrations: Record<number, (record: RawRecord) => RawRecord> = {
+  // 0 → 1: fill in fields that early versions did not have
+  0: (record) => {
+    const createdAt = optionalString(record.createdAt) ?? optionalString(record.updatedAt) ?? LEGACY_DATE;
+    return {
+      ...record,
+      id: optionalString(record.id) ?? `legacy-${hashString(JSON.stringify(record))}`,
+      title: typeof record.title === 'string' ? record.title : 'Untitled Artifact',
+      type: record.type ?? 'react',
+      tags: Array.isArray(record.tags) ? record.tags.filter(tag => typeof tag === 'string') : [],
+      folder: optionalString(record.folder),
+      description: typeof record.description === 'string' ? record.description : undefined,
+      createdAt,
+      updatedAt: optionalString(record.updatedAt) ?? createdAt,
+    };
+  },
+};
+
+const describeIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || 'artifact'}: ${issue.message}`);
+
+// Upgrade raw artifact records from `fromVersion` to the current version and
+// validate each one individually
+export function migrateArtifacts(records: unknown[], fromVersion: number): MigrationResult {
+  const artifacts: Artifact[] = [];
+  const issues: ArtifactIssue[] = [];
+
+  records.forEach((data, index) => {
+    if (!isRecord(data)) {
+      issues.push({ index, problems: ['Not an artifact object'], data });
+      return;
+    }
+
+    let record = data;
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+      record = migrations[version](record);
+    }
+
+    const result = artifactSchema.safeParse(record);
+    if (result.success) {
+      artifacts.push(result.data);
+    } else {
+      issues.push({
+        index,
+        id: optionalString(data.id),
+        title: optionalString(data.title),
+        problems: describeIssues(result.error),
+        data,
+      });
+    }
+  });
+
+  return { artifacts, issues };
+}
+
+// Throws for files written by a newer version of the app
+export function checkSchemaVersion(schemaVersion: number): void {
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This file uses schema version ${schemaVersion}, but this app only supports up to version ${CURRENT_SCHEMA_VERSION}. Please update the app.`
+    );
+  }
+}
+
+export interface ExportFile {
+  schemaVersion: number;
+  exportedAt: string;
+  artifacts: Artifact[];
+}
+
+export function createExportFile(artifacts: Artifact[]): ExportFile {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    artifacts,
+  };
+}
+
+// Parse an export file of any known version. Throws when the file as a whole
+// is unusable; individual malformed artifacts are reported as issues.
+export function parseExportFile(jsonData: string): MigrationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonData);
+  } catch (err) {
+    console.error('Failed to import artifacts:', err);
+    throw new Error('Invalid JSON format');
+  }
+
+  // Version 0 exports are a bare array of artifacts
+  if (Array.isArray(data)) {
+    return migrateArtifacts(data, 0);
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.artifacts) || typeof data.schemaVersion !== 'number') {
+    throw new Error('Unrecognized export file format');
+  }
+
+  checkSchemaVersion(data.schemaVersion);
+  return migrateArtifacts(data.artifacts, data.schemaVersion);
+}
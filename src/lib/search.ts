@@ -0,0 +1,235 @@
+import type { Artifact } from './store';
+
+// A parsed gallery search. Text must all match somewhere in an artifact;
+// operators restrict the results, with several values of one operator
+// matching any of them.
+export interface SearchQuery {
+  // Lowercased words and quoted phrases
+  terms: string[];
+  // The free text as a regular expression, in regex mode
+  pattern: RegExp | null;
+  types: string[];
+  tags: string[];
+  folders: string[];
+}
+
+// A [start, end) range of matched characters
+export type MatchRange = [number, number];
+
+// A line of code that matched, with its 1-based line number
+export interface CodeMatch {
+  line: number;
+  text: string;
+  ranges: MatchRange[];
+}
+
+export interface SearchResult {
+  artifact: Artifact;
+  score: number;
+  // The first matching lines of code, clipped around the match
+  codeMatches: CodeMatch[];
+  // Number of matching lines in all of the code
+  codeMatchCount: number;
+}
+
+const OPERATORS = ['type', 'tag', 'folder'] as const;
+type Operator = typeof OPERATORS[number];
+
+const MAX_CODE_MATCHES = 3;
+const SNIPPET_LENGTH = 120;
+// Characters shown ahead of a match in a clipped line
+const SNIPPET_CONTEXT = 30;
+
+// How much a match in each field counts towards the ranking
+const TITLE_WEIGHT = 10;
+const TAG_WEIGHT = 6;
+const DESCRIPTION_WEIGHT = 3;
+// Each matching line of code counts once, up to this many
+const MAX_CODE_SCORE = 10;
+
+const isOperator = (name: string): name is Operator => (OPERATORS as readonly string[]).includes(name);
+
+// Parse the gallery search box. Supports words, "quoted phrases" and
+// type:, tag: and folder: operators (values may be quoted too). In regex
+// mode, everything but the operators is one regular expression. Throws when
+// that expression is invalid.
+export function parseSearchQuery(input: string, regex = false): SearchQuery {
+  const query: SearchQuery = { terms: [], pattern: null, types: [], tags: [], folders: [] };
+  const text: string[] = [];
+  const token = regex ? /(\w+):(?:"([^"]*)"|(\S+))|(\S+)/g : /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"?|(\S+)/g;
+
+  for (const match of input.matchAll(token)) {
+    const [whole, name, quotedValue, value] = match;
+    const operator = name?.toLowerCase();
+    if (operator && isOperator(operator)) {
+      const operand = (quotedValue ?? value).trim().toLowerCase();
+      if (!operand) continue;
+      if (operator === 'type') query.types.push(operand);
+      if (operator === 'tag') query.tags.push(operand.replace(/^#/, ''));
+      if (operator === 'folder') query.folders.push(operand.replace(/\\/g, '/').replace(/^\/+|\/+$/g, ''));
+    } else if (regex) {
+      text.push(whole);
+    } else {
+      const term = (match[4] ?? whole).trim().toLowerCase();
+      if (term) query.terms.push(term);
+    }
+  }
+
+  if (regex && text.length > 0) {
+    query.pattern = new RegExp(text.join(' '), 'gi');
+  }
+
+  return query;
+}
+
+// Whether a query searches text, rather than only filtering by operators
+export const hasSearchText = (query: SearchQuery) => query.terms.length > 0 || query.pattern !== null;
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  !hasSearchText(query) && query.types.length === 0 && query.tags.length === 0 && query.folders.length === 0;
+
+// Searchable fields of an artifact, lowercased and split into lines once.
+// Artifacts are replaced rather than changed in the store, so an entry stays
+// valid for as long as its artifact object is around.
+interface IndexEntry {
+  title: string;
+  description: string;
+  tags: string[];
+  folder: string;
+  lines: string[];
+  lowerLines: string[];
+}
+
+const searchIndex = new WeakMap<Artifact, IndexEntry>();
+
+function indexArtifact(artifact: Artifact): IndexEntry {
+  let entry = searchIndex.get(artifact);
+  if (!entry) {
+    const lines = artifact.code ? artifact.code.split('\n') : [];
+    entry = {
+      title: artifact.title.toLowerCase(),
+      description: (artifact.description || '').toLowerCase(),
+      tags: artifact.tags.map(tag => tag.toLowerCase()),
+      folder: (artifact.folder || '').replace(/\\/g, '/').toLowerCase(),
+      lines,
+      lowerLines: lines.map(line => line.toLowerCase()),
+    };
+    searchIndex.set(artifact, entry);
+  }
+  return entry;
+}
+
+function matchesFilters(artifact: Artifact, entry: IndexEntry, query: SearchQuery): boolean {
+  if (query.types.length > 0 && !query.types.includes(artifact.type)) return false;
+  if (query.tags.length > 0 && !query.tags.some(tag => entry.tags.includes(tag))) return false;
+  if (query.folders.length > 0 && !query.folders.some(folder =>
+    entry.folder === folder || entry.folder.startsWith(folder + '/')
+  )) return false;
+  return true;
+}
+
+// Ranges of a term in lowercased text, or of the pattern in the original text
+function findRanges(text: string, lowerText: string, term: string | RegExp): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  if (typeof term === 'string') {
+    for (let index = lowerText.indexOf(term); index !== -1; index = lowerText.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  } else {
+    for (const match of text.matchAll(term)) {
+      // Empty matches, e.g. of /x*/, would highlight nothing
+      if (match[0].length > 0) {
+        ranges.push([match.index, match.index + match[0].length]);
+      }
+    }
+  }
+  return ranges;
+}
+
+const matchesText = (text: string, term: string | RegExp) =>
+  typeof term === 'string' ? text.includes(term) : findRanges(text, text, term).length > 0;
+
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const merged: MatchRange[] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+// Shorten a long line to a window around its first match
+function clipLine(text: string, ranges: MatchRange[]): { text: string; ranges: MatchRange[] } {
+  const indent = text.length - text.trimStart().length;
+  let start = indent;
+  if (text.length - start > SNIPPET_LENGTH) {
+    start = Math.max(indent, ranges[0][0] - SNIPPET_CONTEXT);
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > indent ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end).trimEnd() + suffix,
+    ranges: ranges
+      .filter(([rangeStart, rangeEnd]) => rangeEnd > start && rangeStart < end)
+      .map(([rangeStart, rangeEnd]) => [Math.max(rangeStart, start) + shift, Math.min(rangeEnd, end) + shift]),
+  };
+}
+
+// Search artifacts with a parsed query. Results are ranked by how well they
+// match, keeping the given order between equally good results. Code that has
+// not been loaded yet is not searched.
+export function searchArtifacts(artifacts: Artifact[], query: SearchQuery): SearchResult[] {
+  const terms: (string | RegExp)[] = query.pattern ? [query.pattern] : query.terms;
+  const results: SearchResult[] = [];
+
+  artifacts.forEach(artifact => {
+    const entry = indexArtifact(artifact);
+    if (!matchesFilters(artifact, entry, query)) return;
+
+    let score = 0;
+    const lineRanges = new Map<number, MatchRange[]>();
+
+    for (const term of terms) {
+      const inTitle = matchesText(entry.title, term);
+      const inTags = entry.tags.some(tag => matchesText(tag, term));
+      const inDescription = matchesText(entry.description, term);
+
+      let codeLines = 0;
+      entry.lines.forEach((line, index) => {
+        const ranges = findRanges(line, entry.lowerLines[index], term);
+        if (ranges.length === 0) return;
+        codeLines++;
+        lineRanges.set(index, [...(lineRanges.get(index) ?? []), ...ranges]);
+      });
+
+      // Every term has to match somewhere
+      if (!inTitle && !inTags && !inDescription && codeLines === 0) return;
+
+      score += (inTitle ? TITLE_WEIGHT : 0)
+        + (inTags ? TAG_WEIGHT : 0)
+        + (inDescription ? DESCRIPTION_WEIGHT : 0)
+        + Math.min(codeLines, MAX_CODE_SCORE);
+    }
+
+    const matchedLines = Array.from(lineRanges.keys()).sort((a, b) => a - b);
+    results.push({
+      artifact,
+      score,
+      codeMatches: matchedLines.slice(0, MAX_CODE_MATCHES).map(index => ({
+        line: index + 1,
+        ...clipLine(entry.lines[index], mergeRanges(lineRanges.get(index)!)),
+      })),
+      codeMatchCount: matchedLines.length,
+    });
+  });
+
+  // Array.prototype.sort is stable
+  return results.sort((a, b) => b.score - a.score);
+}
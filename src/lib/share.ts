@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { artifactTypeSchema } from './schema';
+import type { Artifact } from './store';
+
+// Share links carry the artifact in the URL fragment, which browsers never
+// send to a server: the fields below as JSON, deflated and base64url-encoded.
+// Folder, history and thumbnail stay in the sender's gallery.
+export type SharedArtifact = Pick<Artifact, 'title' | 'description' | 'type' | 'tags' | 'code'>;
+
+// Links longer than this get cut off by some chat apps and email clients
+export const SHARE_URL_WARNING_LENGTH = 2000;
+// Longer links do not open reliably in every browser
+export const SHARE_URL_MAX_LENGTH = 64 * 1024;
+
+// Bump when the payload format changes, keeping support for older links
+const SHARE_FORMAT_VERSION = 1;
+
+const sharePayloadSchema = z.object({
+  v: z.literal(SHARE_FORMAT_VERSION),
+  title: z.string(),
+  description: z.string().optional(),
+  type: artifactTypeSchema,
+  tags: z.array(z.string()),
+  code: z.string(),
+});
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, as spreading a large array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export async function encodeSharePayload(artifact: SharedArtifact): Promise<string> {
+  const json = JSON.stringify({
+    v: SHARE_FORMAT_VERSION,
+    title: artifact.title,
+    description: artifact.description || undefined,
+    type: artifact.type,
+    tags: artifact.tags,
+    code: artifact.code,
+  });
+  return toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+}
+
+// Throws when the payload is damaged, e.g. because the link was cut off
+export async function decodeSharePayload(payload: string): Promise<SharedArtifact> {
+  let data: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(payload.trim()), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (err) {
+    console.error('Failed to decode share link:', err);
+    throw new Error('The link is damaged or incomplete. Ask for the whole link to be sent again.');
+  }
+
+  const result = sharePayloadSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error('The link does not contain a valid artifact. It may have been made by a newer version of the app.');
+  }
+  const { title, description, type, tags, code } = result.data;
+  return { title, description, type, tags, code };
+}
+
+// The share page for a payload; the app uses a hash router when deployed
+export const getShareUrl = (payload: string) => {
+  const base = `${window.location.origin}${import.meta.env.BASE_URL}`;
+  return import.meta.env.DEV ? `${base}share/#${payload}` : `${base}#/share/#${payload}`;
+};
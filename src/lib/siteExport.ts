@@ -0,0 +1,312 @@
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import { useArtifactStore, type Artifact } from './store';
+import { folderName, isInFolder, normalizeFolderPath } from './folders';
+import { highlightCode } from './markdown';
+import { thumbnailHash } from './thumbnails';
+import { getArtifactFileExtension } from './artifactFiles';
+import {
+  collectStyles,
+  escapeHtml,
+  exportStandalonePage,
+  findClassCandidates,
+  loadPack,
+  pageDocument,
+} from './standaloneExport';
+
+// Static site export: a read-only mini-site of a folder, a tag or the whole
+// gallery, downloaded as a zip that can be opened from disk or hosted as-is.
+//
+//   index.html                  folders, tags and artifact cards
+//   tags/<tag>.html             the artifacts with a tag
+//   artifacts/<slug>.html       an artifact's details, output and code
+//   artifacts/<slug>.view.html  its standalone page, shown in an iframe
+//   thumbnails/<slug>.jpg       card previews, when up to date
+//   runtime/<pack>.js           runtime packs shared by React artifacts
+//   styles.css                  the gallery's styles used by any page
+
+export type SiteScope =
+  | { type: 'all' }
+  | { type: 'folder'; path: string }
+  | { type: 'tag'; tag: string };
+
+export interface SiteExportProgress {
+  done: number;
+  total: number;
+}
+
+export interface SiteExportResult {
+  zip: Blob;
+  fileName: string;
+  artifactCount: number;
+  // Artifacts whose output could not be rendered; their pages show the error
+  failures: { title: string; message: string }[];
+}
+
+const TYPE_BADGES: Record<Artifact['type'], { label: string; className: string }> = {
+  react: { label: 'React', className: 'bg-blue-100 text-blue-800' },
+  svg: { label: 'SVG', className: 'bg-green-100 text-green-800' },
+  mermaid: { label: 'Mermaid', className: 'bg-purple-100 text-purple-800' },
+  html: { label: 'HTML', className: 'bg-orange-100 text-orange-800' },
+  markdown: { label: 'Markdown', className: 'bg-teal-100 text-teal-800' },
+};
+
+// The artifacts outside the trash that a site of the scope contains
+export function artifactsInScope(artifacts: Artifact[], scope: SiteScope): Artifact[] {
+  return artifacts.filter(artifact => {
+    if (artifact.deletedAt) return false;
+    if (scope.type === 'folder') return isInFolder(normalizeFolderPath(artifact.folder || ''), scope.path);
+    if (scope.type === 'tag') return artifact.tags.includes(scope.tag);
+    return true;
+  });
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// File-safe names for the given texts, made unique with a numeric suffix
+function uniqueSlugs(texts: string[], fallback: string): string[] {
+  const used = new Set<string>();
+  return texts.map(text => {
+    const base = slugify(text) || fallback;
+    let slug = base;
+    for (let i = 2; used.has(slug); i++) slug = `${base}-${i}`;
+    used.add(slug);
+    return slug;
+  });
+}
+
+const dataUrlBytes = (dataUrl: string) =>
+  Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(',') + 1)), char => char.charCodeAt(0));
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+interface SitePage {
+  artifact: Artifact;
+  slug: string;
+  // Path of the card preview, when the artifact has an up-to-date thumbnail
+  thumbnail?: string;
+}
+
+const typeBadge = (type: Artifact['type']) =>
+  `<span class="text-xs px-2 py-0.5 rounded ${TYPE_BADGES[type].className}">${TYPE_BADGES[type].label}</span>`;
+
+const tagLink = (tag: string, href: string) =>
+  `<a href="${escapeHtml(href)}" class="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded hover:bg-gray-200">#${escapeHtml(tag)}</a>`;
+
+// Card grid like the gallery's; `root` leads from the page to the site root
+function cardGrid(pages: SitePage[], tagSlugs: Map<string, string>, root: string): string {
+  const cards = pages.map(({ artifact, slug, thumbnail }) => {
+    const href = `${root}artifacts/${slug}.html`;
+    const preview = thumbnail
+      ? `<img src="${root}${thumbnail}" alt="" class="w-full h-full object-cover object-top">`
+      : '<div class="h-full flex items-center justify-center text-gray-400 text-sm">No preview</div>';
+    const tags = artifact.tags.length > 0
+      ? `<div class="flex flex-wrap gap-1 mb-2">${artifact.tags.map(tag => tagLink(tag, `${root}tags/${tagSlugs.get(tag)}.html`)).join('')}</div>`
+      : '';
+    return `<div class="border rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow bg-white">
+<a href="${href}" class="block h-40 bg-gray-50 border-b overflow-hidden">${preview}</a>
+<div class="p-4">
+<div class="flex items-center mb-2"><a href="${href}" class="text-lg font-semibold hover:underline">${escapeHtml(artifact.title || 'Untitled Artifact')}</a><span class="ml-2">${typeBadge(artifact.type)}</span></div>
+<p class="text-gray-600 mb-2 line-clamp-2">${escapeHtml(artifact.description || 'No description')}</p>
+${tags}
+<div class="text-sm text-gray-500">Updated: ${formatDate(artifact.updatedAt)}</div>
+</div>
+</div>`;
+  });
+  return `<div class="grid grid-cols-1 md:grid-cols-2 gap-4">\n${cards.join('\n')}\n</div>`;
+}
+
+const siteFooter = () => `<footer class="mt-12 pt-4 border-t text-sm text-gray-500">Exported from Artifacts Gallery on ${formatDate(new Date().toISOString())}</footer>`;
+
+const linkedPage = (title: string, stylesheetUrl: string, body: string) =>
+  pageDocument(title, `<link rel="stylesheet" href="${stylesheetUrl}">`, `<div class="p-4 max-w-6xl mx-auto">\n${body}\n${siteFooter()}\n</div>`);
+
+// Sizes the artifact's iframe from the resize messages of its page (see withResizeScript)
+const FRAME_RESIZE_SCRIPT = `<script>
+(function () {
+  var frame = document.getElementById('artifact-frame');
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (frame && event.source === frame.contentWindow && data && data.source === 'artifact-sandbox' && data.type === 'resize') {
+      frame.style.height = Math.max(data.height, 50) + 'px';
+    }
+  });
+})();
+</script>`;
+
+function artifactPage(page: SitePage, siteTitle: string, tagSlugs: Map<string, string>, renderError?: string): string {
+  const { artifact, slug } = page;
+  const folder = normalizeFolderPath(artifact.folder || '');
+  const output = renderError
+    ? `<div class="bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm">
+<p class="font-semibold mb-1">The artifact could not be rendered</p>
+<p class="font-mono whitespace-pre-wrap">${escapeHtml(renderError)}</p>
+</div>`
+    : `<iframe id="artifact-frame" src="${slug}.view.html" title="${escapeHtml(artifact.title || 'Artifact')}" sandbox="allow-scripts allow-modals allow-forms allow-popups" class="w-full border rounded bg-white" style="height: 150px"></iframe>
+<a href="${slug}.view.html" target="_blank" class="inline-block mt-2 text-sm text-blue-600 hover:underline">Open full page</a>`;
+
+  const details = [
+    folder ? `<span>📁 ${escapeHtml(folder)}</span>` : '',
+    `<span>Created: ${formatDate(artifact.createdAt)}</span>`,
+    `<span>Updated: ${formatDate(artifact.updatedAt)}</span>`,
+  ].filter(Boolean).join('\n');
+
+  return linkedPage(artifact.title, '../styles.css', `<a href="../index.html" class="text-blue-600 hover:underline text-sm">← ${escapeHtml(siteTitle)}</a>
+<div class="flex items-center mt-2 mb-2"><h1 class="text-2xl font-bold">${escapeHtml(artifact.title || 'Untitled Artifact')}</h1><span class="ml-2">${typeBadge(artifact.type)}</span></div>
+<div class="flex flex-wrap gap-4 text-sm text-gray-500 mb-2">
+${details}
+</div>
+${artifact.tags.length > 0 ? `<div class="flex flex-wrap gap-1 mb-2">${artifact.tags.map(tag => tagLink(tag, `../tags/${tagSlugs.get(tag)}.html`)).join('')}</div>` : ''}
+${artifact.description ? `<p class="text-gray-700 mb-4">${escapeHtml(artifact.description)}</p>` : ''}
+<div class="mb-8">
+${output}
+</div>
+<h2 class="text-xl font-semibold mb-3">Code</h2>
+<div class="markdown-body">
+${highlightCode(artifact.code, getArtifactFileExtension(artifact))}
+</div>
+${renderError ? '' : FRAME_RESIZE_SCRIPT}`);
+}
+
+interface FolderSection {
+  // Path relative to the site's folder; '' for the artifacts directly in it
+  path: string;
+  description?: string;
+  pages: SitePage[];
+}
+
+function indexPage(siteTitle: string, sections: FolderSection[], tags: [string, SitePage[]][], tagSlugs: Map<string, string>, rootName: string): string {
+  const total = sections.reduce((count, section) => count + section.pages.length, 0);
+  const sectionName = (section: FolderSection) => section.path || rootName;
+
+  const folderLinks = sections.map((section, i) =>
+    `<li><a href="#folder-${i}" class="flex justify-between px-2 py-1 rounded hover:bg-gray-100"><span class="truncate">${escapeHtml(sectionName(section))}</span><span class="text-gray-400 text-xs ml-2">${section.pages.length}</span></a></li>`);
+  const tagLinks = tags.map(([tag, pages]) =>
+    `<li><a href="tags/${tagSlugs.get(tag)}.html" class="flex justify-between px-2 py-1 rounded hover:bg-gray-100"><span class="truncate">#${escapeHtml(tag)}</span><span class="text-gray-400 text-xs ml-2">${pages.length}</span></a></li>`);
+
+  const sidebar = `<aside class="hidden md:block w-56 shrink-0 text-sm">
+<div class="sticky top-4">
+<h2 class="font-semibold text-gray-700 mb-2">Folders</h2>
+<ul class="mb-6">
+${folderLinks.join('\n')}
+</ul>
+${tags.length > 0 ? `<h2 class="font-semibold text-gray-700 mb-2">Tags</h2>\n<ul>\n${tagLinks.join('\n')}\n</ul>` : ''}
+</div>
+</aside>`;
+
+  const content = sections.map((section, i) => `<section id="folder-${i}" class="mb-8">
+<h2 class="text-xl font-semibold mb-1">${escapeHtml(sectionName(section))}</h2>
+${section.description ? `<p class="text-gray-600 mb-3">${escapeHtml(section.description)}</p>` : ''}
+${cardGrid(section.pages, tagSlugs, '')}
+</section>`);
+
+  return linkedPage(siteTitle, 'styles.css', `<h1 class="text-2xl font-bold">${escapeHtml(siteTitle)}</h1>
+<p class="text-gray-500 mb-6">${total} ${total === 1 ? 'artifact' : 'artifacts'}</p>
+<div class="flex gap-6">
+${sidebar}
+<main class="flex-1 min-w-0">
+${content.join('\n')}
+</main>
+</div>`);
+}
+
+const tagPage = (siteTitle: string, tag: string, pages: SitePage[], tagSlugs: Map<string, string>) =>
+  linkedPage(`#${tag} · ${siteTitle}`, '../styles.css', `<a href="../index.html" class="text-blue-600 hover:underline text-sm">← ${escapeHtml(siteTitle)}</a>
+<h1 class="text-2xl font-bold mt-2">#${escapeHtml(tag)}</h1>
+<p class="text-gray-500 mb-6">${pages.length} ${pages.length === 1 ? 'artifact' : 'artifacts'}</p>
+${cardGrid(pages, tagSlugs, '../')}`);
+
+// Build the site of the artifacts in the scope. Artifacts that cannot be
+// rendered still get a page, with the error instead of their output.
+export async function exportStaticSite(
+  scope: SiteScope,
+  siteTitle: string,
+  onProgress?: (progress: SiteExportProgress) => void
+): Promise<SiteExportResult> {
+  const store = useArtifactStore.getState();
+  const ids = artifactsInScope(store.artifacts, scope).map(artifact => artifact.id);
+  if (ids.length === 0) {
+    throw new Error('There are no artifacts to export');
+  }
+  await store.loadArtifactContent(ids);
+  const artifacts = artifactsInScope(useArtifactStore.getState().artifacts, scope)
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const files: Zippable = {};
+  const slugs = uniqueSlugs(artifacts.map(artifact => artifact.title), 'artifact');
+  const pages: SitePage[] = artifacts.map((artifact, i) => {
+    const current = artifact.thumbnail && artifact.thumbnail.codeHash === thumbnailHash(artifact.code);
+    if (!current) return { artifact, slug: slugs[i] };
+
+    const thumbnail = `thumbnails/${slugs[i]}.jpg`;
+    // JPEGs are compressed already
+    files[thumbnail] = [dataUrlBytes(artifact.thumbnail!.dataUrl), { level: 0 }];
+    return { artifact, slug: slugs[i], thumbnail };
+  });
+
+  const tagNames = Array.from(new Set(artifacts.flatMap(artifact => artifact.tags))).sort();
+  const tagSlugs = new Map(uniqueSlugs(tagNames, 'tag').map((slug, i) => [tagNames[i], slug]));
+
+  const runtimePacks = new Set<string>();
+  const classNames: string[] = [];
+  const failures: SiteExportResult['failures'] = [];
+  for (const [i, page] of pages.entries()) {
+    let renderError: string | undefined;
+    try {
+      const view = await exportStandalonePage(page.artifact, {
+        runtimeUrl: '../runtime/',
+        stylesheetUrl: '../styles.css',
+        embedded: true,
+      });
+      files[`artifacts/${page.slug}.view.html`] = strToU8(view.html);
+      view.runtimePacks.forEach(pack => runtimePacks.add(pack));
+      classNames.push(...view.classNames);
+    } catch (err) {
+      renderError = err instanceof Error ? err.message : String(err);
+      failures.push({ title: page.artifact.title || 'Untitled Artifact', message: renderError });
+    }
+    files[`artifacts/${page.slug}.html`] = strToU8(artifactPage(page, siteTitle, tagSlugs, renderError));
+    onProgress?.({ done: i + 1, total: pages.length });
+  }
+
+  // Folders relative to the exported one, in tree order
+  const rootPath = scope.type === 'folder' ? scope.path : '';
+  const { folders } = useArtifactStore.getState();
+  const sections = new Map<string, FolderSection>();
+  pages.forEach(page => {
+    const folder = normalizeFolderPath(page.artifact.folder || '');
+    const path = rootPath ? folder.slice(rootPath.length + 1) : folder;
+    if (!sections.has(path)) {
+      const description = folders.find(item => item.path === folder)?.description;
+      sections.set(path, { path, description, pages: [] });
+    }
+    sections.get(path)!.pages.push(page);
+  });
+  const sortedSections = Array.from(sections.values()).sort((a, b) => a.path.localeCompare(b.path));
+  const rootName = rootPath ? folderName(rootPath) : 'Top level';
+
+  const tags = tagNames.map(tag => [tag, pages.filter(page => page.artifact.tags.includes(tag))] as [string, SitePage[]]);
+  tags.forEach(([tag, tagPages]) => {
+    files[`tags/${tagSlugs.get(tag)}.html`] = strToU8(tagPage(siteTitle, tag, tagPages, tagSlugs));
+  });
+  files['index.html'] = strToU8(indexPage(siteTitle, sortedSections, tags, tagSlugs, rootName));
+
+  for (const pack of Array.from(runtimePacks)) {
+    files[`runtime/${pack}.js`] = strToU8(await loadPack(pack));
+  }
+
+  // One stylesheet for every page; the generated pages are scanned as they are
+  const siteMarkup = Object.entries(files)
+    .filter(([path]) => path.endsWith('.html'))
+    .map(([, content]) => new TextDecoder().decode(content as Uint8Array));
+  files['styles.css'] = strToU8(collectStyles(findClassCandidates([...classNames, ...siteMarkup])));
+
+  const siteSlug = slugify(siteTitle) || 'artifacts';
+  const zip = zipSync({ [siteSlug]: files });
+  return {
+    zip: new Blob([zip], { type: 'application/zip' }),
+    fileName: `${siteSlug}.zip`,
+    artifactCount: pages.length,
+    failures,
+  };
+}
@@ -0,0 +1,245 @@
+import type { Artifact } from './store';
+import { compileComponentCode } from './executeArtifact';
+import { resolveArtifactModule } from './artifactModules';
+import { normalizeModuleSpecifier } from './runComponent';
+import { ARTIFACT_CODE_ELEMENT_ID } from './standaloneRuntime';
+import { renderMarkdown } from './markdown';
+import { renderMermaidSvg } from './renderMermaid';
+import { sanitizeSvg } from './sanitize';
+import { withResizeScript } from './sandboxProtocol';
+import coreSource from '../standalone/core.tsx?raw';
+import errorBoundarySource from '../components/renderers/ArtifactErrorBoundary.tsx?raw';
+
+// Standalone HTML export: a single file that shows the artifact without the
+// gallery, for emailing or hosting anywhere. React artifacts are compiled here
+// and run by the runtime packs of src/standalone, inlined as scripts; the
+// other types are rendered to static markup. Only the gallery's CSS rules
+// for class names that the page can use are included.
+
+type ExportableArtifact = Pick<Artifact, 'title' | 'type' | 'code'>;
+
+export interface StandalonePageOptions {
+  // Link the runtime packs (as `${runtimeUrl}<pack>.js`) and the stylesheet
+  // instead of inlining them, for pages that share them (see siteExport.ts)
+  runtimeUrl?: string;
+  stylesheetUrl?: string;
+  // Report the page height to the page that shows it in an iframe
+  embedded?: boolean;
+}
+
+export interface StandalonePage {
+  html: string;
+  // Runtime packs the page links to under `runtimeUrl`
+  runtimePacks: string[];
+  // Class names the page can use, to collect a shared stylesheet from
+  classNames: Set<string>;
+}
+
+interface RuntimePack {
+  name: string;
+  provides: (specifier: string) => boolean;
+  // Module whose exports artifacts can use without importing them
+  globalsFrom?: string;
+}
+
+// Packs loaded after the core (which provides React), in load order
+const RUNTIME_PACKS: RuntimePack[] = [
+  { name: 'lucide', provides: specifier => specifier === 'lucide-react', globalsFrom: 'lucide-react' },
+  { name: 'recharts', provides: specifier => specifier === 'recharts', globalsFrom: 'recharts' },
+  { name: 'dateFns', provides: specifier => specifier === 'date-fns' },
+  { name: 'zod', provides: specifier => specifier === 'zod' },
+  { name: 'lodash', provides: specifier => specifier === 'lodash' },
+  { name: 'ui', provides: specifier => specifier.startsWith('@/components/ui/') || specifier === '@/lib/utils' },
+];
+
+// Sources of the shadcn components, for the class names they use
+const uiSources = import.meta.glob<string>('../components/ui/*.{ts,tsx}', { query: '?raw', import: 'default' });
+
+const packScripts = new Map<string, Promise<string>>();
+
+export const loadPack = (name: string) => {
+  if (!packScripts.has(name)) {
+    const script = fetch(`${import.meta.env.BASE_URL}standalone/${name}.js`).then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load the "${name}" runtime (${response.status})`);
+      }
+      return response.text();
+    });
+    script.catch(() => packScripts.delete(name));
+    packScripts.set(name, script);
+  }
+  return packScripts.get(name)!;
+};
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Inline scripts must not contain "</script" or "<!--", which change how the
+// browser parses the rest of the element
+const escapeScript = (code: string) => code.replace(/<\/(script)/gi, '<\\/$1').replace(/<!--/g, '<\\!--');
+
+// Words in the text that could be class names, split the way Tailwind scans content
+export const findClassCandidates = (texts: string[]) =>
+  new Set(texts.flatMap(text => text.split(/[\s"'`;{}<>\\]+/)).filter(Boolean));
+
+const unescapeCss = (text: string) =>
+  text.replace(/\\([0-9a-fA-F]{1,6}\s?|.)/g, (_, escaped: string) =>
+    /^[0-9a-fA-F]/.test(escaped) ? String.fromCodePoint(parseInt(escaped, 16)) : escaped);
+
+// Split a selector list at its top-level commas
+const splitSelectors = (selectorText: string) => {
+  const selectors: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selectorText.length; i++) {
+    const char = selectorText[i];
+    if (char === '\\') i++;
+    else if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      selectors.push(selectorText.slice(start, i));
+      start = i + 1;
+    }
+  }
+  selectors.push(selectorText.slice(start));
+  return selectors;
+};
+
+// A selector applies when all its classes can be in the page; selectors
+// without classes (base styles) always do
+const selectorApplies = (selector: string, classNames: Set<string>) =>
+  Array.from(selector.matchAll(/\.((?:\\[0-9a-fA-F]{1,6}\s?|\\.|[\w-])+)/g))
+    .every(match => classNames.has(unescapeCss(match[1])));
+
+function filterRules(rules: CSSRuleList, classNames: Set<string>): string[] {
+  const kept: string[] = [];
+  Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSStyleRule) {
+      if (splitSelectors(rule.selectorText).some(selector => selectorApplies(selector, classNames))) {
+        kept.push(rule.cssText);
+      }
+    } else if (rule instanceof CSSGroupingRule) {
+      // @media, @supports and layers, kept when any of their rules are
+      const inner = filterRules(rule.cssRules, classNames);
+      if (inner.length > 0) {
+        kept.push(`${rule.cssText.slice(0, rule.cssText.indexOf('{')).trim()} {\n${inner.join('\n')}\n}`);
+      }
+    } else if (!(rule instanceof CSSImportRule)) {
+      // Keyframes, font faces and the like
+      kept.push(rule.cssText);
+    }
+  });
+  return kept;
+}
+
+// The gallery's styles that apply to the given class names
+export function collectStyles(classNames: Set<string>): string {
+  return Array.from(document.styleSheets).flatMap(sheet => {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Stylesheets from other origins cannot be read
+      return [];
+    }
+    return filterRules(rules, classNames);
+  }).join('\n');
+}
+
+const stylesheet = (classNames: Set<string>, options: StandalonePageOptions) =>
+  options.stylesheetUrl
+    ? `<link rel="stylesheet" href="${escapeHtml(options.stylesheetUrl)}">`
+    : `<style>\n${collectStyles(classNames)}\n</style>`;
+
+export const pageDocument = (title: string, head: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="generator" content="Artifacts Gallery">
+<title>${escapeHtml(title || 'Untitled Artifact')}</title>
+${head}
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const buildPage = (artifact: ExportableArtifact, body: string, classNames: Set<string>, options: StandalonePageOptions): StandalonePage => ({
+  html: pageDocument(artifact.title, stylesheet(classNames, options), options.embedded ? withResizeScript(body) : body),
+  runtimePacks: [],
+  classNames,
+});
+
+async function exportReactPage(artifact: ExportableArtifact, options: StandalonePageOptions): Promise<StandalonePage> {
+  const compiled = compileComponentCode(artifact.code);
+  const imports = compiled.imports.map(normalizeModuleSpecifier);
+
+  const packs = RUNTIME_PACKS.filter(pack => {
+    if (imports.some(pack.provides)) return true;
+    const globals = pack.globalsFrom && resolveArtifactModule(pack.globalsFrom);
+    return !!globals && compiled.globalNames.some(name => name in globals);
+  });
+  const packNames = ['core', ...packs.map(pack => pack.name)];
+  const scripts = options.runtimeUrl
+    ? packNames.map(name => `<script src="${escapeHtml(`${options.runtimeUrl}${name}.js`)}"></script>`)
+    : (await Promise.all(packNames.map(loadPack))).map(script => `<script>${escapeScript(script)}</script>`);
+
+  // Class names can come from the artifact, the shadcn components it uses and the runtime's error messages
+  const usedUiSources = await Promise.all(
+    Object.entries(uiSources)
+      .filter(([path]) => imports.includes(`@/components/ui/${path.replace(/^.*\/ui\//, '').replace(/\.tsx?$/, '')}`))
+      .map(([, load]) => load())
+  );
+  const classNames = findClassCandidates([artifact.code, ...usedUiSources, coreSource, errorBoundarySource]);
+
+  const body = [
+    '<div id="root"></div>',
+    `<script type="application/json" id="${ARTIFACT_CODE_ELEMENT_ID}">${JSON.stringify(compiled.code).replace(/</g, '\\u003c')}</script>`,
+    ...scripts,
+  ].join('\n');
+  return { ...buildPage(artifact, body, classNames, options), runtimePacks: options.runtimeUrl ? packNames : [] };
+}
+
+// SVG, Mermaid and markdown artifacts become static markup
+async function renderStaticBody(artifact: ExportableArtifact): Promise<string> {
+  switch (artifact.type) {
+    case 'svg':
+      return `<div class="p-4">${sanitizeSvg(artifact.code)}</div>`;
+    case 'mermaid':
+      return `<div class="p-4">${await renderMermaidSvg(artifact.code)}</div>`;
+    default: {
+      const parts = await Promise.all(renderMarkdown(artifact.code).map(block =>
+        block.type === 'mermaid'
+          ? renderMermaidSvg(block.code).then(svg => `<div class="my-4">${svg}</div>`)
+          : block.html
+      ));
+      return `<div class="markdown-body max-w-4xl mx-auto p-6">\n${parts.join('\n')}\n</div>`;
+    }
+  }
+}
+
+// An HTML page that shows the artifact. Throws when a React artifact does not
+// compile or a diagram does not parse.
+export async function exportStandalonePage(artifact: ExportableArtifact, options: StandalonePageOptions = {}): Promise<StandalonePage> {
+  if (artifact.type === 'html') {
+    // HTML artifacts are standalone pages already
+    return {
+      html: options.embedded ? withResizeScript(artifact.code) : artifact.code,
+      runtimePacks: [],
+      classNames: new Set(),
+    };
+  }
+  if (artifact.type === 'react') {
+    return exportReactPage(artifact, options);
+  }
+
+  const body = await renderStaticBody(artifact);
+  return buildPage(artifact, body, findClassCandidates([body]), options);
+}
+
+// A self-contained HTML page that shows the artifact
+export async function exportStandaloneHtml(artifact: ExportableArtifact): Promise<string> {
+  return (await exportStandalonePage(artifact)).html;
+}
@@ -0,0 +1,22 @@
+import type { ModuleExports } from './runComponent';
+
+// Interface between the packs that make up the runtime of a standalone HTML
+// export (see src/standalone). The core pack comes first and defines
+// `window.ArtifactRuntime`; each pack after it registers the modules it
+// provides, and the core runs the artifact once the page has loaded.
+export interface StandaloneRuntime {
+  // With `globals`, artifacts can use the exports without importing them
+  registerModule: (specifier: string, exports: ModuleExports, options?: { globals?: boolean }) => void;
+}
+
+declare global {
+  interface Window {
+    ArtifactRuntime: StandaloneRuntime;
+  }
+}
+
+// Id of the JSON script element holding the compiled artifact code
+export const ARTIFACT_CODE_ELEMENT_ID = 'artifact-code';
+
+export const registerRuntimeModule: StandaloneRuntime['registerModule'] = (specifier, exports, options) =>
+  window.ArtifactRuntime.registerModule(specifier, exports, options);
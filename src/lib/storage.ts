@@ -0,0 +1,332 @@
+import { createJSONStorage, type PersistStorage, type StorageValue } from 'zustand/middleware';
+import type { Artifact, PersistedArtifactState } from './store';
+import { createFolderBackend } from './folderStorage';
+
+// Storage adapters for the persisted artifact store.
+//
+// The original backend keeps the whole store as one JSON string in
+// localStorage, which caps a collection at roughly 5MB and re-serialises every
+// artifact on each change. The IndexedDB backend stores one record per
+// artifact, only writes the artifacts that actually changed, and loads the
+// (large) code and revision history of each artifact lazily.
+
+type ArtifactContent = Pick<Artifact, 'code' | 'revisions'>;
+
+export interface StorageUsage {
+  backend: ArtifactStorageBackend['name'];
+  // Where the data lives, when that is not obvious from the backend
+  location?: string;
+  usedBytes: number;
+  // Undefined when the browser does not report a quota
+  quotaBytes?: number;
+}
+
+export interface ArtifactStorageBackend {
+  name: 'localStorage' | 'indexedDB' | 'folder';
+  storage: PersistStorage<PersistedArtifactState>;
+  // Load code and revisions of artifacts hydrated without them. Only returns
+  // entries for artifacts whose content was not loaded yet.
+  loadContent: (ids: string[]) => Promise<Record<string, ArtifactContent>>;
+  estimateUsage: () => Promise<StorageUsage>;
+  // Get notified when the stored data is changed outside of the app
+  subscribe?: (onExternalChange: () => void) => () => void;
+}
+
+// Approximate quota browsers give localStorage per origin
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export function createLocalStorageBackend(): ArtifactStorageBackend {
+  const storage = createJSONStorage<PersistedArtifactState>(() => localStorage)!;
+
+  return {
+    name: 'localStorage',
+    storage,
+    loadContent: async () => ({}),
+    estimateUsage: async () => {
+      let usedBytes = 0;
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i) || '';
+        // localStorage stores strings as UTF-16
+        usedBytes += (key.length + (localStorage.getItem(key)?.length || 0)) * 2;
+      }
+      return { backend: 'localStorage', usedBytes, quotaBytes: LOCAL_STORAGE_QUOTA };
+    },
+  };
+}
+
+const DB_NAME = 'artifacts-gallery';
+const DB_VERSION = 1;
+// Store-level state other than the artifacts themselves
+const META_STORE = 'meta';
+// Artifact metadata without code or revisions, keyed by id
+const ARTIFACTS_STORE = 'artifacts';
+// Code and revision history, keyed by artifact id
+const CONTENTS_STORE = 'contents';
+
+interface MetaRecord {
+  version?: number;
+  state: Omit<PersistedArtifactState, 'artifacts'>;
+}
+
+interface ContentRecord extends ArtifactContent {
+  id: string;
+}
+
+// What was last written for an artifact, used to skip unchanged records
+interface WrittenRecord {
+  artifact: Artifact;
+  metadataJson: string;
+  code: string;
+  revisions?: Artifact['revisions'];
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const splitArtifact = (artifact: Artifact) => {
+  const { code, revisions, ...metadata } = artifact;
+  return { metadata, content: { id: artifact.id, code, revisions } as ContentRecord };
+};
+
+export function createIndexedDBBackend(): ArtifactStorageBackend {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  const writtenRecords = new Map<string, WrittenRecord>();
+  // Artifacts hydrated with placeholder code whose content is still in the database
+  const unloadedContent = new Set<string>();
+
+  // Writes before hydration would replace the stored data with the empty initial state
+  let hydrated = false;
+  // Latest state waiting to be written; intermediate states are skipped
+  let pendingValue: StorageValue<PersistedArtifactState> | null = null;
+  let flushing: Promise<void> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(META_STORE);
+          db.createObjectStore(ARTIFACTS_STORE, { keyPath: 'id' });
+          db.createObjectStore(CONTENTS_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  const writeSnapshot = async (value: StorageValue<PersistedArtifactState>) => {
+    const db = await openDatabase();
+    const transaction = db.transaction([META_STORE, ARTIFACTS_STORE, CONTENTS_STORE], 'readwrite');
+    const artifactsStore = transaction.objectStore(ARTIFACTS_STORE);
+    const contentsStore = transaction.objectStore(CONTENTS_STORE);
+
+    const { artifacts, ...rest } = value.state;
+    const meta: MetaRecord = { version: value.version, state: rest };
+    transaction.objectStore(META_STORE).put(meta, 'state');
+
+    const currentIds = new Set<string>();
+    const written = new Map<string, WrittenRecord>();
+
+    for (const artifact of artifacts) {
+      // Malformed records are quarantined by the store and kept in its state
+      if (typeof artifact?.id !== 'string') continue;
+      currentIds.add(artifact.id);
+
+      const previous = writtenRecords.get(artifact.id);
+      // Zustand updates are immutable, so an unchanged reference means an unchanged artifact
+      if (previous?.artifact === artifact) continue;
+
+      const { metadata, content } = splitArtifact(artifact);
+      const metadataJson = JSON.stringify(metadata);
+      if (previous?.metadataJson !== metadataJson) {
+        artifactsStore.put(metadata);
+      }
+
+      // Placeholder code of a lazily loaded artifact must never overwrite its stored content
+      if (unloadedContent.has(artifact.id) && artifact.code) {
+        unloadedContent.delete(artifact.id);
+      }
+      const contentChanged = previous?.code !== content.code || previous?.revisions !== content.revisions;
+      if (!unloadedContent.has(artifact.id) && contentChanged) {
+        contentsStore.put(content);
+      }
+
+      written.set(artifact.id, {
+        artifact,
+        metadataJson,
+        code: unloadedContent.has(artifact.id) ? previous?.code ?? '' : content.code,
+        revisions: unloadedContent.has(artifact.id) ? previous?.revisions : content.revisions,
+      });
+    }
+
+    const deletedIds = Array.from(writtenRecords.keys()).filter(id => !currentIds.has(id));
+    deletedIds.forEach(id => {
+      artifactsStore.delete(id);
+      contentsStore.delete(id);
+    });
+
+    await transactionDone(transaction);
+
+    written.forEach((record, id) => writtenRecords.set(id, record));
+    deletedIds.forEach(id => {
+      writtenRecords.delete(id);
+      unloadedContent.delete(id);
+    });
+  };
+
+  const flush = async () => {
+    while (pendingValue) {
+      const value = pendingValue;
+      pendingValue = null;
+      try {
+        await writeSnapshot(value);
+      } catch (err) {
+        console.error('Failed to save artifacts to IndexedDB:', err);
+      }
+    }
+  };
+
+  // Move the store saved by the localStorage backend into IndexedDB
+  const migrateFromLocalStorage = async (name: string): Promise<StorageValue<PersistedArtifactState> | null> => {
+    const legacyData = localStorage.getItem(name);
+    if (!legacyData) return null;
+
+    const value = JSON.parse(legacyData) as StorageValue<PersistedArtifactState>;
+    try {
+      await writeSnapshot(value);
+      localStorage.removeItem(name);
+    } catch (err) {
+      // Keep the localStorage copy so that nothing is lost; we'll retry next time
+      console.error('Failed to migrate artifacts from localStorage to IndexedDB:', err);
+    }
+    return value;
+  };
+
+  const storage: PersistStorage<PersistedArtifactState> = {
+    getItem: async (name) => {
+      try {
+        const db = await openDatabase();
+        const transaction = db.transaction([META_STORE, ARTIFACTS_STORE], 'readonly');
+        const meta = await requestToPromise<MetaRecord | undefined>(transaction.objectStore(META_STORE).get('state'));
+
+        if (!meta) {
+          return await migrateFromLocalStorage(name);
+        }
+
+        const records = await requestToPromise<Omit<Artifact, 'code' | 'revisions'>[]>(
+          transaction.objectStore(ARTIFACTS_STORE).getAll()
+        );
+
+        // Code and revisions are loaded on demand, see loadContent
+        const artifacts = records.map(metadata => {
+          const artifact: Artifact = { ...metadata, code: '' };
+          unloadedContent.add(artifact.id);
+          writtenRecords.set(artifact.id, {
+            artifact,
+            metadataJson: JSON.stringify(metadata),
+            code: '',
+          });
+          return artifact;
+        });
+
+        return { version: meta.version, state: { ...meta.state, artifacts } };
+      } catch (err) {
+        // Never reject: zustand would otherwise never finish hydrating
+        console.error('Failed to load artifacts from IndexedDB:', err);
+        const legacyData = localStorage.getItem(name);
+        return legacyData ? JSON.parse(legacyData) : null;
+      } finally {
+        hydrated = true;
+      }
+    },
+
+    setItem: async (_name, value) => {
+      if (!hydrated) return;
+      pendingValue = value;
+      if (!flushing) {
+        flushing = flush().finally(() => {
+          flushing = null;
+        });
+      }
+      return flushing;
+    },
+
+    removeItem: async () => {
+      const db = await openDatabase();
+      const transaction = db.transaction([META_STORE, ARTIFACTS_STORE, CONTENTS_STORE], 'readwrite');
+      [META_STORE, ARTIFACTS_STORE, CONTENTS_STORE].forEach(store => transaction.objectStore(store).clear());
+      await transactionDone(transaction);
+      writtenRecords.clear();
+      unloadedContent.clear();
+    },
+  };
+
+  return {
+    name: 'indexedDB',
+    storage,
+
+    loadContent: async (ids) => {
+      const idsToLoad = ids.filter(id => unloadedContent.has(id));
+      if (idsToLoad.length === 0) return {};
+
+      const db = await openDatabase();
+      const contentsStore = db.transaction(CONTENTS_STORE, 'readonly').objectStore(CONTENTS_STORE);
+      const records = await Promise.all(
+        idsToLoad.map(id => requestToPromise<ContentRecord | undefined>(contentsStore.get(id)))
+      );
+
+      const contents: Record<string, ArtifactContent> = {};
+      idsToLoad.forEach((id, index) => {
+        // Another call may have loaded it meanwhile
+        if (!unloadedContent.has(id)) return;
+
+        const content: ArtifactContent = {
+          code: records[index]?.code ?? '',
+          revisions: records[index]?.revisions,
+        };
+        contents[id] = content;
+        unloadedContent.delete(id);
+
+        // The store will set this content; it is already saved, so don't write it back
+        const written = writtenRecords.get(id);
+        if (written) {
+          written.code = content.code;
+          written.revisions = content.revisions;
+        }
+      });
+
+      return contents;
+    },
+
+    estimateUsage: async () => {
+      const estimate = await navigator.storage?.estimate?.();
+      return {
+        backend: 'indexedDB',
+        usedBytes: estimate?.usage ?? 0,
+        quotaBytes: estimate?.quota,
+      };
+    },
+  };
+}
+
+// Sync with a directory when the dev server provides one, otherwise use
+// IndexedDB where the browser supports it
+export function createStorageBackend(): ArtifactStorageBackend {
+  if (import.meta.env.VITE_ARTIFACTS_DIR) {
+    return createFolderBackend(import.meta.env.VITE_ARTIFACTS_DIR);
+  }
+  return typeof indexedDB !== 'undefined' ? createIndexedDBBackend() : createLocalStorageBackend();
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useArtifactStore, type Artifact } from './store';
+
+// The store persists through localStorage where there is no IndexedDB; set up
+// before the store module is loaded
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    get length() { return items.size; },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, String(value)); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  });
+});
+
+const newArtifact = (title: string): Omit<Artifact, 'id'> => ({
+  title,
+  type: 'svg',
+  code: '<svg xmlns="http://www.w3.org/2000/svg"></svg>',
+  tags: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const findArtifact = (id: string) => useArtifactStore.getState().artifacts.find(artifact => artifact.id === id);
+
+describe('importArtifacts', () => {
+  beforeEach(() => {
+    useArtifactStore.setState({ artifacts: [], folders: [], undoStack: [], redoStack: [] });
+  });
+
+  it('restores a trashed artifact when its backup is imported again', async () => {
+    const { createArtifact, exportArtifacts, deleteArtifacts } = useArtifactStore.getState();
+    const id = await createArtifact(newArtifact('Logo'));
+    const backup = await exportArtifacts();
+    await deleteArtifacts([id]);
+    expect(findArtifact(id)?.deletedAt).toBeDefined();
+
+    const preview = useArtifactStore.getState().previewImport(backup);
+    expect(preview.conflicts[id]?.existing.deletedAt).toBeDefined();
+
+    const result = await useArtifactStore.getState().importArtifacts(backup);
+    expect(result).toEqual({ added: 0, updated: 1, skipped: 0 });
+    expect(findArtifact(id)?.deletedAt).toBeUndefined();
+  });
+
+  it('restores a trashed artifact when it is overwritten', async () => {
+    const { createArtifact, exportArtifacts, deleteArtifacts } = useArtifactStore.getState();
+    const id = await createArtifact(newArtifact('Logo'));
+    const backup = await exportArtifacts();
+    await deleteArtifacts([id]);
+
+    await useArtifactStore.getState().importArtifacts(backup, { [id]: 'overwrite' });
+    expect(findArtifact(id)?.deletedAt).toBeUndefined();
+  });
+
+  it('leaves a trashed artifact in the trash when the import skips it', async () => {
+    const { createArtifact, exportArtifacts, deleteArtifacts } = useArtifactStore.getState();
+    const id = await createArtifact(newArtifact('Logo'));
+    const backup = await exportArtifacts();
+    await deleteArtifacts([id]);
+
+    await useArtifactStore.getState().importArtifacts(backup, { [id]: 'skip' });
+    expect(findArtifact(id)?.deletedAt).toBeDefined();
+  });
+});
+
+describe('moveArtifacts', () => {
+  beforeEach(() => {
+    useArtifactStore.setState({ artifacts: [], folders: [], undoStack: [], redoStack: [] });
+  });
+
+  it('stores the folder path normalized', async () => {
+    const id = await useArtifactStore.getState().createArtifact(newArtifact('Logo'));
+
+    await useArtifactStore.getState().moveArtifacts([id], ' Charts / Sales/ ');
+    expect(findArtifact(id)?.folder).toBe('Charts/Sales');
+
+    await useArtifactStore.getState().moveArtifacts([id], ' / ');
+    expect(findArtifact(id)?.folder).toBeUndefined();
+  });
+});
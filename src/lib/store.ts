@@ -1,166 +1,731 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import {
+  CURRENT_SCHEMA_VERSION,
+  createExportFile,
+  migrateArtifacts,
+  parseExportFile,
+  type ArtifactIssue,
+} from './schema';
+import { createStorageBackend, type StorageUsage } from './storage';
+import { createArtifactArchive, parseArtifactArchive } from './archive';
+import {
+  collectFolderPaths,
+  folderName,
+  isInFolder,
+  joinFolderPath,
+  normalizeFolderPath,
+  parentFolderPath,
+  replaceFolderPrefix,
+  type FolderColor,
+} from './folders';
 
 export interface Artifact {
   id: string;
   title: string;
   description?: string;
-  type: 'react' | 'svg' | 'mermaid';
+  type: 'react' | 'svg' | 'mermaid' | 'html' | 'markdown';
   tags: string[];
   folder?: string;
   code: string;
   createdAt: string;
   updatedAt: string;
+  // Snapshots of every saved state, oldest first
+  revisions?: ArtifactRevision[];
+  // Preview image for gallery cards
+  thumbnail?: ArtifactThumbnail;
+  // When the artifact was moved to the trash
+  deletedAt?: string;
+  // Where the artifact was imported from
+  source?: ArtifactSource;
 }
 
+// The Claude conversation an artifact was extracted from
+export interface ArtifactSource {
+  conversation: string;
+  conversationId?: string;
+  // When the conversation was started
+  date?: string;
+}
+
+export interface ArtifactThumbnail {
+  // Hash of the code the image was rendered from
+  codeHash: string;
+  // JPEG data URL
+  dataUrl: string;
+}
+
+// A folder with its details. Folders that artifacts are in exist without one.
+export interface ArtifactFolder {
+  // Full path with '/' between levels, e.g. 'Charts/2024'
+  path: string;
+  description?: string;
+  color?: FolderColor;
+  createdAt: string;
+}
+
+export type FolderDetails = Pick<ArtifactFolder, 'description' | 'color'>;
+
+// What happens to the contents of a deleted folder
+export type FolderDeleteMode = 'move-to-parent' | 'trash';
+
+export interface ArtifactRevision {
+  id: string;
+  title: string;
+  description?: string;
+  type: Artifact['type'];
+  tags: string[];
+  folder?: string;
+  code: string;
+  createdAt: string;
+  note?: string;
+}
+
+// How an incoming artifact that collides with an existing one is imported
+export type ImportResolution = 'merge' | 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportConflict {
+  // Matched by identical id, or by identical title when the ids differ
+  reason: 'id' | 'title';
+  existing: Artifact;
+}
+
+export interface ImportPreview {
+  artifacts: Artifact[];
+  // Keyed by the incoming artifact's id
+  conflicts: Record<string, ImportConflict>;
+  // Entries of the file that failed validation and will not be imported
+  issues: ArtifactIssue[];
+  // Folder details in the file (zip exports only); those of folders that do
+  // not exist yet are added
+  folders: ArtifactFolder[];
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// An artifact before and after an undoable change; missing when it did not exist
+export interface ArtifactChange {
+  id: string;
+  before?: Artifact;
+  after?: Artifact;
+}
+
+export interface UndoEntry {
+  // Describes the change, e.g. 'Move 3 artifacts to "docs"'
+  label: string;
+  changes: ArtifactChange[];
+  // The folders before and after the change, when it changed them
+  folders?: { before: ArtifactFolder[]; after: ArtifactFolder[] };
+}
+
+// Trashed artifacts are deleted for good after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+const MAX_UNDO_STEPS = 50;
+
+const storageBackend = createStorageBackend();
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+// Snapshot the current content and metadata of an artifact
+const createRevision = (artifact: Artifact, createdAt: string, note?: string): ArtifactRevision => ({
+  id: generateId(),
+  title: artifact.title,
+  description: artifact.description,
+  type: artifact.type,
+  tags: [...artifact.tags],
+  folder: artifact.folder,
+  code: artifact.code,
+  createdAt,
+  ...(note?.trim() ? { note: note.trim() } : {})
+});
+
+// A new artifact with an id, recording its initial state as the first revision
+const newArtifact = (artifactData: Omit<Artifact, 'id'>): Artifact => {
+  // Make sure tags are initialized properly
+  const artifact = {
+    id: generateId(),
+    ...artifactData,
+    tags: artifactData.tags || [],
+  } as Artifact;
+  
+  return {
+    ...artifact,
+    revisions: [createRevision(artifact, artifact.createdAt || new Date().toISOString())]
+  };
+};
+
+// Apply a save to an artifact, recording the saved state as a new revision
+const applySave = (artifact: Artifact, artifactData: Partial<Artifact>, note?: string): Artifact => {
+  // Artifacts saved before history existed keep their previous state as the first revision
+  const revisions = artifact.revisions?.length
+    ? artifact.revisions
+    : [createRevision(artifact, artifact.updatedAt || artifact.createdAt)];
+  
+  const updatedArtifact = { ...artifact, ...artifactData };
+  const savedAt = artifactData.updatedAt || new Date().toISOString();
+  
+  return {
+    ...updatedArtifact,
+    revisions: [...revisions, createRevision(updatedArtifact, savedAt, note)]
+  };
+};
+
+const normalizeTitle = (title: string) => (title || '').trim().toLowerCase();
+
+const isTrashExpired = (artifact: Artifact, now: number) =>
+  !!artifact.deletedAt && now - Date.parse(artifact.deletedAt) > TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// What an update did to each artifact. Artifacts are replaced rather than
+// changed, so unchanged ones are the same objects.
+const diffArtifacts = (before: Artifact[], after: Artifact[]): ArtifactChange[] => {
+  const afterById = new Map(after.map(artifact => [artifact.id, artifact]));
+  const beforeIds = new Set(before.map(artifact => artifact.id));
+  
+  const changes: ArtifactChange[] = before
+    .filter(artifact => afterById.get(artifact.id) !== artifact)
+    .map(artifact => ({ id: artifact.id, before: artifact, after: afterById.get(artifact.id) }));
+  after.forEach(artifact => {
+    if (!beforeIds.has(artifact.id)) changes.push({ id: artifact.id, after: artifact });
+  });
+  return changes;
+};
+
+// Take recorded changes back (undo) or apply them again (redo). Only the
+// fields a change touched are reverted, so later edits of other fields, like
+// a thumbnail or a save in the editor, are kept.
+const applyChanges = (artifacts: Artifact[], changes: ArtifactChange[], direction: 'undo' | 'redo'): Artifact[] => {
+  const result = [...artifacts];
+  
+  changes.forEach(change => {
+    const from = direction === 'undo' ? change.after : change.before;
+    const to = direction === 'undo' ? change.before : change.after;
+    const index = result.findIndex(artifact => artifact.id === change.id);
+    
+    if (!to) {
+      if (index !== -1) result.splice(index, 1);
+    } else if (index === -1) {
+      result.push(to);
+    } else if (!from) {
+      result[index] = to;
+    } else {
+      const patch: Record<string, unknown> = {};
+      const keys = new Set([...Object.keys(from), ...Object.keys(to)]) as Set<keyof Artifact>;
+      keys.forEach(key => {
+        if (from[key] !== to[key]) patch[key] = to[key];
+      });
+      result[index] = { ...result[index], ...patch };
+    }
+  });
+  
+  return result;
+};
+
+// 'the "Title"' for one artifact, '3 artifacts' for several
+const describeArtifacts = (ids: string[]) => {
+  if (ids.length !== 1) return `${ids.length} artifacts`;
+  const artifact = useArtifactStore.getState().artifacts.find(a => a.id === ids[0]);
+  return `"${artifact?.title || 'Untitled Artifact'}"`;
+};
+
+// Update the artifacts, and optionally the folders, as one undoable step
+const commitChange = (
+  label: string,
+  update: (artifacts: Artifact[]) => Artifact[],
+  updateFolders?: (folders: ArtifactFolder[]) => ArtifactFolder[]
+) => {
+  const { artifacts, folders, undoStack } = useArtifactStore.getState();
+  const updated = update(artifacts);
+  const updatedFolders = updateFolders ? updateFolders(folders) : folders;
+  const changes = diffArtifacts(artifacts, updated);
+  const foldersChanged = updatedFolders !== folders;
+  if (changes.length === 0 && !foldersChanged) return;
+  
+  const entry: UndoEntry = {
+    label,
+    changes,
+    ...(foldersChanged ? { folders: { before: folders, after: updatedFolders } } : {})
+  };
+  useArtifactStore.setState({
+    artifacts: updated,
+    folders: updatedFolders,
+    undoStack: [...undoStack, entry].slice(-MAX_UNDO_STEPS),
+    redoStack: []
+  });
+};
+
+// Give a folder, its subfolders and the artifacts in them a new path
+const relocateFolder = (path: string, newPath: string, label: string) => {
+  const from = normalizeFolderPath(path);
+  const to = normalizeFolderPath(newPath);
+  if (!to) {
+    throw new Error('Folder name cannot be empty');
+  }
+  if (from === to) return;
+  if (isInFolder(to, from)) {
+    throw new Error('A folder cannot be moved into itself');
+  }
+  if (useArtifactStore.getState().getAllFolders().includes(to)) {
+    throw new Error(`A folder named "${to}" already exists`);
+  }
+  
+  commitChange(label,
+    artifacts => artifacts.map(artifact => {
+      const folder = normalizeFolderPath(artifact.folder || '');
+      return folder && isInFolder(folder, from)
+        ? { ...artifact, folder: replaceFolderPrefix(folder, from, to) }
+        : artifact;
+    }),
+    folders => folders.map(folder =>
+      isInFolder(folder.path, from) ? { ...folder, path: replaceFolderPrefix(folder.path, from, to) } : folder
+    )
+  );
+};
+
+// Combine two versions of the same artifact: the most recently updated content
+// wins, while tags and revision histories are united. A trashed artifact is
+// restored unless the incoming copy is in the trash too.
+const mergeArtifacts = (existing: Artifact, incoming: Artifact): Artifact => {
+  const { deletedAt, ...newer } = incoming.updatedAt > existing.updatedAt ? incoming : existing;
+  
+  const revisionsById = new Map<string, ArtifactRevision>();
+  [...(existing.revisions || []), ...(incoming.revisions || [])].forEach(revision => {
+    revisionsById.set(revision.id, revision);
+  });
+  const revisions = Array.from(revisionsById.values())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  
+  return {
+    ...newer,
+    id: existing.id,
+    createdAt: existing.createdAt < incoming.createdAt ? existing.createdAt : incoming.createdAt,
+    tags: Array.from(new Set([...existing.tags, ...incoming.tags])),
+    ...(revisions.length > 0 ? { revisions } : {}),
+    ...(deletedAt && incoming.deletedAt ? { deletedAt } : {})
+  };
+};
+
 interface ArtifactState {
   artifacts: Artifact[];
+  // Stored records that failed validation, kept until the user discards them
+  invalidArtifacts: ArtifactIssue[];
+  // Folders with details, and folders created before they hold any artifacts
+  folders: ArtifactFolder[];
+  // Undoable changes, most recent last; not persisted
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
   loadArtifacts: () => Promise<Artifact[]>;
   getArtifact: (id: string) => Promise<Artifact | undefined>;
-  saveArtifact: (id: string, artifactData: Partial<Artifact>) => Promise<void>;
+  saveArtifact: (id: string, artifactData: Partial<Artifact>, note?: string) => Promise<void>;
   createArtifact: (artifactData: Omit<Artifact, 'id'>) => Promise<string>;
+  // Create several artifacts as one undoable step; resolves with their ids
+  createArtifacts: (artifactsData: Omit<Artifact, 'id'>[], label: string) => Promise<string[]>;
+  restoreRevision: (id: string, revisionId: string) => Promise<void>;
+  // Deleting moves artifacts to the trash, from where they can be restored
   deleteArtifact: (id: string) => Promise<void>;
-  exportArtifacts: () => string;
-  importArtifacts: (jsonData: string) => Promise<void>;
+  deleteArtifacts: (ids: string[]) => Promise<void>;
+  restoreArtifacts: (ids: string[]) => Promise<void>;
+  // Delete trashed artifacts for good
+  purgeArtifacts: (ids: string[]) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  // Revert or reapply the last undoable change; resolves with its label, or
+  // null when there was nothing to undo or redo
+  undo: () => string | null;
+  redo: () => string | null;
+  // Store a generated preview image; does not count as an edit
+  setThumbnail: (id: string, thumbnail: ArtifactThumbnail) => void;
+  // Load the code and revisions of the given artifacts (all when omitted)
+  loadArtifactContent: (ids?: string[]) => Promise<void>;
+  getStorageUsage: () => Promise<StorageUsage>;
+  // Export the given artifacts (all when omitted) as JSON, or as a zip with
+  // one file per artifact (see archive.ts)
+  exportArtifacts: (ids?: string[]) => Promise<string>;
+  exportArtifactArchive: (ids?: string[]) => Promise<Uint8Array>;
+  // Imports read JSON exports (as text) and zip exports (as bytes)
+  previewImport: (data: string | Uint8Array) => ImportPreview;
+  // Conflicts without an explicit resolution are merged
+  importArtifacts: (data: string | Uint8Array, resolutions?: Record<string, ImportResolution>) => Promise<ImportResult>;
+  discardInvalidArtifacts: () => void;
   // Tag and folder management
   addTag: (id: string, tag: string) => Promise<void>;
   removeTag: (id: string, tag: string) => Promise<void>;
   setFolder: (id: string, folder: string) => Promise<void>;
+  // Bulk versions of the above for several artifacts at once
+  addTagToArtifacts: (ids: string[], tag: string) => Promise<void>;
+  removeTagFromArtifacts: (ids: string[], tag: string) => Promise<void>;
+  moveArtifacts: (ids: string[], folder: string) => Promise<void>;
+  // Changing the type is saved as a new revision of each artifact
+  setArtifactsType: (ids: string[], type: Artifact['type']) => Promise<void>;
   getAllTags: () => string[];
+  // Paths of all folders, created or in use, including parents of nested ones
   getAllFolders: () => string[];
+  // Folder management. These throw when the new path is invalid or taken.
+  createFolder: (path: string, details?: FolderDetails) => Promise<void>;
+  updateFolder: (path: string, details: FolderDetails) => Promise<void>;
+  renameFolder: (path: string, newName: string) => Promise<void>;
+  // Move a folder into another one ('' for the top level)
+  moveFolder: (path: string, parentPath: string) => Promise<void>;
+  deleteFolder: (path: string, mode: FolderDeleteMode) => Promise<void>;
 }
 
+// The part of the state that is saved by the storage backend
+export type PersistedArtifactState = Pick<ArtifactState, 'artifacts' | 'invalidArtifacts' | 'folders'>;
+
+// Resolves once the persisted artifacts have been read from storage, which is
+// asynchronous with the IndexedDB backend
+const waitForHydration = () => new Promise<void>(resolve => {
+  if (useArtifactStore.persist.hasHydrated()) {
+    resolve();
+    return;
+  }
+  const unsubscribe = useArtifactStore.persist.onFinishHydration(() => {
+    unsubscribe();
+    resolve();
+  });
+});
+
 export const useArtifactStore = create<ArtifactState>()(
   persist(
     (set, get) => ({
       artifacts: [],
+      invalidArtifacts: [],
+      folders: [],
+      undoStack: [],
+      redoStack: [],
       
       loadArtifacts: async () => {
-        // Add new fields to existing artifacts if missing (backward compatibility)
+        await waitForHydration();
+        
+        // Trashed artifacts are deleted for good once they have been there long enough
+        const now = Date.now();
+        if (get().artifacts.some(artifact => isTrashExpired(artifact, now))) {
+          set(state => ({
+            artifacts: state.artifacts.filter(artifact => !isTrashExpired(artifact, now))
+          }));
+        }
+        
+        // Validate stored artifacts, moving malformed ones aside instead of
+        // letting them break the gallery
         const currentArtifacts = get().artifacts;
-        const updatedArtifacts = currentArtifacts.map(artifact => {
-          const updates: Partial<Artifact> = {};
-          
-          if (!('type' in artifact)) {
-            updates.type = 'react' as const;
-          }
-          
-          if (!('tags' in artifact)) {
-            updates.tags = [];
-          }
-          
-          if (Object.keys(updates).length > 0) {
-            return { ...artifact, ...updates };
-          }
-          
-          return artifact;
-        });
+        const { artifacts, issues } = migrateArtifacts(currentArtifacts, CURRENT_SCHEMA_VERSION);
         
-        if (JSON.stringify(currentArtifacts) !== JSON.stringify(updatedArtifacts)) {
-          set({ artifacts: updatedArtifacts });
+        if (issues.length > 0) {
+          issues.forEach(issue => console.warn('Invalid stored artifact:', issue.problems, issue.data));
+          set(state => ({
+            artifacts,
+            invalidArtifacts: [...state.invalidArtifacts, ...issues]
+          }));
+          return artifacts;
         }
         
-        return updatedArtifacts;
+        return currentArtifacts;
       },
       
       getArtifact: async (id) => {
+        await get().loadArtifactContent([id]);
         return get().artifacts.find(a => a.id === id);
       },
       
-      saveArtifact: async (id, artifactData) => {
+      saveArtifact: async (id, artifactData, note) => {
+        // The revision history is part of the lazily loaded content
+        await get().loadArtifactContent([id]);
+        
         set(state => ({
-          artifacts: state.artifacts.map(artifact => 
-            artifact.id === id ? { ...artifact, ...artifactData } : artifact
+          artifacts: state.artifacts.map(artifact =>
+            artifact.id === id ? applySave(artifact, artifactData, note) : artifact
           )
         }));
       },
       
       createArtifact: async (artifactData) => {
-        const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
-        
-        // Make sure tags are initialized properly
-        const completeArtifact = {
-          id,
-          ...artifactData,
-          tags: artifactData.tags || [],
-        } as Artifact;
+        const artifact = newArtifact(artifactData);
         
         set(state => ({
-          artifacts: [...state.artifacts, completeArtifact]
+          artifacts: [...state.artifacts, artifact]
         }));
         
-        return id;
+        return artifact.id;
+      },
+      
+      createArtifacts: async (artifactsData, label) => {
+        const created = artifactsData.map(newArtifact);
+        commitChange(label, artifacts => [...artifacts, ...created]);
+        return created.map(artifact => artifact.id);
+      },
+      
+      restoreRevision: async (id, revisionId) => {
+        await get().loadArtifactContent([id]);
+        const artifact = get().artifacts.find(a => a.id === id);
+        const revision = artifact?.revisions?.find(r => r.id === revisionId);
+        if (!artifact || !revision) {
+          throw new Error('Revision not found');
+        }
+        
+        // Restoring is itself a save, so it can be undone by restoring again
+        await get().saveArtifact(id, {
+          title: revision.title,
+          description: revision.description,
+          type: revision.type,
+          tags: [...revision.tags],
+          folder: revision.folder,
+          code: revision.code,
+          updatedAt: new Date().toISOString()
+        }, `Restored revision from ${new Date(revision.createdAt).toLocaleString()}`);
       },
       
       deleteArtifact: async (id) => {
+        await get().deleteArtifacts([id]);
+      },
+      
+      deleteArtifacts: async (ids) => {
+        const deletedAt = new Date().toISOString();
+        commitChange(`Move ${describeArtifacts(ids)} to the trash`, artifacts =>
+          artifacts.map(artifact =>
+            ids.includes(artifact.id) && !artifact.deletedAt ? { ...artifact, deletedAt } : artifact
+          )
+        );
+      },
+      
+      restoreArtifacts: async (ids) => {
+        commitChange(`Restore ${describeArtifacts(ids)} from the trash`, artifacts =>
+          artifacts.map(artifact =>
+            ids.includes(artifact.id) && artifact.deletedAt ? { ...artifact, deletedAt: undefined } : artifact
+          )
+        );
+      },
+      
+      purgeArtifacts: async (ids) => {
+        // Undoing has to bring back the full content
+        await get().loadArtifactContent(ids);
+        commitChange(`Delete ${describeArtifacts(ids)} permanently`, artifacts =>
+          artifacts.filter(artifact => !ids.includes(artifact.id))
+        );
+      },
+      
+      emptyTrash: async () => {
+        const ids = get().artifacts.filter(artifact => artifact.deletedAt).map(artifact => artifact.id);
+        if (ids.length === 0) return;
+        await get().purgeArtifacts(ids);
+      },
+      
+      undo: () => {
+        const { undoStack, redoStack, artifacts } = get();
+        const entry = undoStack[undoStack.length - 1];
+        if (!entry) return null;
+        
+        set({
+          artifacts: applyChanges(artifacts, entry.changes, 'undo'),
+          ...(entry.folders ? { folders: entry.folders.before } : {}),
+          undoStack: undoStack.slice(0, -1),
+          redoStack: [...redoStack, entry]
+        });
+        return entry.label;
+      },
+      
+      redo: () => {
+        const { undoStack, redoStack, artifacts } = get();
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry) return null;
+        
+        set({
+          artifacts: applyChanges(artifacts, entry.changes, 'redo'),
+          ...(entry.folders ? { folders: entry.folders.after } : {}),
+          undoStack: [...undoStack, entry],
+          redoStack: redoStack.slice(0, -1)
+        });
+        return entry.label;
+      },
+      
+      setThumbnail: (id, thumbnail) => {
+        set(state => ({
+          artifacts: state.artifacts.map(artifact =>
+            artifact.id === id ? { ...artifact, thumbnail } : artifact
+          )
+        }));
+      },
+      
+      loadArtifactContent: async (ids) => {
+        await waitForHydration();
+        const contents = await storageBackend.loadContent(ids ?? get().artifacts.map(a => a.id));
+        if (Object.keys(contents).length === 0) return;
+        
         set(state => ({
-          artifacts: state.artifacts.filter(artifact => artifact.id !== id)
+          artifacts: state.artifacts.map(artifact =>
+            contents[artifact.id] ? { ...artifact, ...contents[artifact.id] } : artifact
+          )
         }));
       },
       
-      exportArtifacts: () => {
-        return JSON.stringify(get().artifacts, null, 2);
+      getStorageUsage: () => storageBackend.estimateUsage(),
+      
+      exportArtifacts: async (ids) => {
+        await get().loadArtifactContent(ids);
+        // Thumbnails are left out; they are regenerated from the code
+        // Exporting everything leaves out the trash
+        const artifacts = get().artifacts
+          .filter(artifact => ids ? ids.includes(artifact.id) : !artifact.deletedAt)
+          .map(artifact => ({ ...artifact, thumbnail: undefined }));
+        return JSON.stringify(createExportFile(artifacts), null, 2);
       },
       
-      importArtifacts: async (jsonData) => {
-        try {
-          const importedArtifacts = JSON.parse(jsonData);
-          if (Array.isArray(importedArtifacts)) {
-            // Ensure all imported artifacts have the required fields
-            const processedArtifacts = importedArtifacts.map(artifact => ({
-              ...artifact,
-              type: artifact.type || 'react',
-              tags: artifact.tags || [],
-              updatedAt: artifact.updatedAt || artifact.createdAt || new Date().toISOString()
-            }));
-            
-            set({ artifacts: processedArtifacts });
+      exportArtifactArchive: async (ids) => {
+        await get().loadArtifactContent(ids);
+        const artifacts = get().artifacts
+          .filter(artifact => ids ? ids.includes(artifact.id) : !artifact.deletedAt);
+        // Details of the folders the artifacts are in, and of their parents
+        const folders = ids
+          ? get().folders.filter(folder =>
+            artifacts.some(artifact => isInFolder(normalizeFolderPath(artifact.folder || ''), folder.path)))
+          : get().folders;
+        return createArtifactArchive(artifacts, folders);
+      },
+      
+      previewImport: (data) => {
+        const { artifacts: incomingArtifacts, issues, folders } = typeof data === 'string'
+          ? { ...parseExportFile(data), folders: [] }
+          : parseArtifactArchive(data);
+        const existingArtifacts = get().artifacts;
+        const conflicts: Record<string, ImportConflict> = {};
+        
+        incomingArtifacts.forEach(incoming => {
+          const sameId = existingArtifacts.find(a => a.id === incoming.id);
+          if (sameId) {
+            conflicts[incoming.id] = { reason: 'id', existing: sameId };
+            return;
           }
-        } catch (err) {
-          console.error('Failed to import artifacts:', err);
-          throw new Error('Invalid JSON format');
-        }
+          
+          const sameTitle = existingArtifacts.find(a => 
+            normalizeTitle(a.title) === normalizeTitle(incoming.title)
+          );
+          if (sameTitle) {
+            conflicts[incoming.id] = { reason: 'title', existing: sameTitle };
+          }
+        });
+        
+        return { artifacts: incomingArtifacts, conflicts, issues, folders };
+      },
+      
+      importArtifacts: async (data, resolutions = {}) => {
+        // Merging needs the full content and history of existing artifacts
+        await get().loadArtifactContent();
+        const { artifacts: incomingArtifacts, conflicts, folders: incomingFolders } = get().previewImport(data);
+        const result: ImportResult = { added: 0, updated: 0, skipped: 0 };
+        let artifacts = [...get().artifacts];
+        
+        incomingArtifacts.forEach(incoming => {
+          const conflict = conflicts[incoming.id];
+          
+          if (!conflict) {
+            artifacts.push(incoming);
+            result.added++;
+            return;
+          }
+          
+          switch (resolutions[incoming.id] || 'merge') {
+            case 'skip':
+              result.skipped++;
+              break;
+            case 'overwrite':
+              artifacts = artifacts.map(a => 
+                a.id === conflict.existing.id ? { ...incoming, id: conflict.existing.id } : a
+              );
+              result.updated++;
+              break;
+            case 'keep-both':
+              artifacts.push({
+                ...incoming,
+                id: generateId(),
+                title: normalizeTitle(incoming.title) === normalizeTitle(conflict.existing.title)
+                  ? `${incoming.title} (imported)`
+                  : incoming.title
+              });
+              result.added++;
+              break;
+            case 'merge':
+              artifacts = artifacts.map(a => 
+                a.id === conflict.existing.id ? mergeArtifacts(a, incoming) : a
+              );
+              result.updated++;
+              break;
+          }
+        });
+        
+        const newFolders = incomingFolders.filter(incoming =>
+          !get().folders.some(folder => folder.path === incoming.path));
+        commitChange(
+          `Import ${result.added + result.updated} ${result.added + result.updated === 1 ? 'artifact' : 'artifacts'}`,
+          () => artifacts,
+          newFolders.length > 0 ? folders => [...folders, ...newFolders] : undefined
+        );
+        return result;
+      },
+      
+      discardInvalidArtifacts: () => {
+        set({ invalidArtifacts: [] });
       },
       
       // Tag management methods
-      addTag: async (id, tag) => {
+      addTag: (id, tag) => get().addTagToArtifacts([id], tag),
+      
+      removeTag: (id, tag) => get().removeTagFromArtifacts([id], tag),
+      
+      addTagToArtifacts: async (ids, tag) => {
         if (!tag.trim()) return;
         
-        set(state => ({
-          artifacts: state.artifacts.map(artifact => 
-            artifact.id === id 
-              ? { ...artifact, tags: artifact.tags.includes(tag) 
-                  ? artifact.tags 
-                  : [...artifact.tags, tag] }
+        commitChange(`Tag ${describeArtifacts(ids)} with "${tag}"`, artifacts =>
+          artifacts.map(artifact => 
+            ids.includes(artifact.id) && !artifact.tags.includes(tag)
+              ? { ...artifact, tags: [...artifact.tags, tag] }
               : artifact
           )
-        }));
+        );
       },
       
-      removeTag: async (id, tag) => {
-        set(state => ({
-          artifacts: state.artifacts.map(artifact => 
-            artifact.id === id 
+      removeTagFromArtifacts: async (ids, tag) => {
+        commitChange(`Remove tag "${tag}" from ${describeArtifacts(ids)}`, artifacts =>
+          artifacts.map(artifact => 
+            ids.includes(artifact.id) && artifact.tags.includes(tag)
               ? { ...artifact, tags: artifact.tags.filter(t => t !== tag) }
               : artifact
           )
-        }));
+        );
       },
       
       // Folder management methods
-      setFolder: async (id, folder) => {
-        set(state => ({
-          artifacts: state.artifacts.map(artifact => 
-            artifact.id === id 
-              ? { ...artifact, folder: folder.trim() || undefined }
+      setFolder: (id, folder) => get().moveArtifacts([id], folder),
+      
+      moveArtifacts: async (ids, folder) => {
+        const target = normalizeFolderPath(folder) || undefined;
+        commitChange(`Move ${describeArtifacts(ids)} to ${target ? `"${target}"` : 'no folder'}`, artifacts =>
+          artifacts.map(artifact => 
+            ids.includes(artifact.id) && artifact.folder !== target
+              ? { ...artifact, folder: target }
               : artifact
           )
-        }));
+        );
+      },
+      
+      setArtifactsType: async (ids, type) => {
+        // The revision history is part of the lazily loaded content
+        await get().loadArtifactContent(ids);
+        const updatedAt = new Date().toISOString();
+        
+        commitChange(`Change the type of ${describeArtifacts(ids)} to ${type}`, artifacts =>
+          artifacts.map(artifact =>
+            ids.includes(artifact.id) && artifact.type !== type
+              ? applySave(artifact, { type, updatedAt }, `Changed type to ${type}`)
+              : artifact
+          )
+        );
       },
       
       // Get all unique tags and folders for filtering
       getAllTags: () => {
-        const artifacts = get().artifacts;
+        const artifacts = get().artifacts.filter(artifact => !artifact.deletedAt);
         const tagsSet = new Set<string>();
         
         artifacts.forEach(artifact => {
@@ -171,20 +736,113 @@ export const useArtifactStore = create<ArtifactState>()(
       },
       
       getAllFolders: () => {
-        const artifacts = get().artifacts;
-        const foldersSet = new Set<string>();
+        const artifacts = get().artifacts.filter(artifact => !artifact.deletedAt);
+        return collectFolderPaths(get().folders, artifacts);
+      },
+      
+      createFolder: async (path, details = {}) => {
+        const folderPath = normalizeFolderPath(path);
+        if (!folderPath) {
+          throw new Error('Folder name cannot be empty');
+        }
+        if (get().getAllFolders().includes(folderPath)) {
+          throw new Error(`A folder named "${folderPath}" already exists`);
+        }
         
-        artifacts.forEach(artifact => {
-          if (artifact.folder) {
-            foldersSet.add(artifact.folder);
-          }
+        commitChange(`Create folder "${folderPath}"`, artifacts => artifacts, folders => [
+          ...folders,
+          { path: folderPath, ...details, createdAt: new Date().toISOString() }
+        ]);
+      },
+      
+      updateFolder: async (path, details) => {
+        const folderPath = normalizeFolderPath(path);
+        commitChange(`Edit folder "${folderPath}"`, artifacts => artifacts, folders => {
+          const existing = folders.find(folder => folder.path === folderPath);
+          // Folders that only exist through their artifacts get an entry now
+          return existing
+            ? folders.map(folder => folder === existing ? { ...folder, ...details } : folder)
+            : [...folders, { path: folderPath, ...details, createdAt: new Date().toISOString() }];
         });
+      },
+      
+      renameFolder: async (path, newName) => {
+        const name = normalizeFolderPath(newName);
+        if (name.includes('/')) {
+          throw new Error('Folder names cannot contain "/"');
+        }
+        relocateFolder(path, joinFolderPath(parentFolderPath(path), name), `Rename folder "${folderName(path)}" to "${name}"`);
+      },
+      
+      moveFolder: async (path, parentPath) => {
+        const parent = normalizeFolderPath(parentPath);
+        relocateFolder(path, joinFolderPath(parent, folderName(path)),
+          `Move folder "${folderName(path)}" to ${parent ? `"${parent}"` : 'the top level'}`);
+      },
+      
+      deleteFolder: async (path, mode) => {
+        const folderPath = normalizeFolderPath(path);
+        const parent = parentFolderPath(folderPath);
+        const inFolder = (artifact: Artifact) => {
+          const folder = normalizeFolderPath(artifact.folder || '');
+          return !!folder && isInFolder(folder, folderPath);
+        };
+        const deletedAt = new Date().toISOString();
         
-        return Array.from(foldersSet).sort();
+        commitChange(`Delete folder "${folderPath}"`,
+          artifacts => artifacts.map(artifact => {
+            if (!inFolder(artifact)) return artifact;
+            if (mode === 'trash') {
+              return artifact.deletedAt ? artifact : { ...artifact, deletedAt };
+            }
+            // Artifacts and subfolders take the place of the deleted folder
+            const folder = normalizeFolderPath(artifact.folder!);
+            return { ...artifact, folder: replaceFolderPrefix(folder, folderPath, parent) || undefined };
+          }),
+          folders => {
+            const remaining = folders.filter(folder => !isInFolder(folder.path, folderPath));
+            if (mode === 'trash') return remaining;
+            
+            // Subfolders that clash with an existing folder are merged into it
+            const takenPaths = new Set(remaining.map(folder => folder.path));
+            const moved = folders
+              .filter(folder => folder.path !== folderPath && isInFolder(folder.path, folderPath))
+              .map(folder => ({ ...folder, path: replaceFolderPrefix(folder.path, folderPath, parent) }))
+              .filter(folder => !takenPaths.has(folder.path));
+            return [...remaining, ...moved];
+          }
+        );
       }
     }),
     {
       name: 'artifact-storage',
+      storage: storageBackend.storage,
+      partialize: (state) => ({
+        artifacts: state.artifacts,
+        invalidArtifacts: state.invalidArtifacts,
+        folders: state.folders
+      }),
+      version: CURRENT_SCHEMA_VERSION,
+      // Upgrade snapshots written by older versions of the app
+      migrate: (persistedState, version) => {
+        const state = (persistedState || {}) as Partial<PersistedArtifactState>;
+        const { artifacts, issues } = migrateArtifacts(
+          Array.isArray(state.artifacts) ? state.artifacts : [],
+          version
+        );
+        
+        return {
+          ...state,
+          artifacts,
+          invalidArtifacts: [...(state.invalidArtifacts || []), ...issues],
+          folders: Array.isArray(state.folders) ? state.folders : []
+        } as PersistedArtifactState;
+      },
     }
   )
-);
\ No newline at end of file
+);
+
+// Reload when the stored artifacts change outside the app, e.g. files edited on disk
+storageBackend.subscribe?.(() => {
+  useArtifactStore.persist.rehydrate();
+});
\ No newline at end of file
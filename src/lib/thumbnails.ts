@@ -0,0 +1,110 @@
+import { toCanvas } from 'html-to-image';
+import type { Artifact } from './store';
+import { hashString } from './utils';
+
+// Size of the images shown on gallery cards
+export const THUMBNAIL_WIDTH = 256;
+export const THUMBNAIL_HEIGHT = 160;
+
+// Artifacts are laid out at this size and scaled down, so that a thumbnail
+// looks like a screenshot of the top of the artifact
+export const CAPTURE_WIDTH = 800;
+export const CAPTURE_HEIGHT = 500;
+
+// Key of the code a thumbnail was made from
+export const thumbnailHash = (code: string) => hashString(code);
+
+// Whether an artifact needs a new thumbnail. Content that has not been loaded
+// yet is empty; it cannot have changed since its thumbnail was made.
+export function needsThumbnail(artifact: Artifact): boolean {
+  if (!artifact.thumbnail) return true;
+  return artifact.code !== '' && artifact.thumbnail.codeHash !== thumbnailHash(artifact.code);
+}
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not load the image to capture'));
+  image.src = url;
+});
+
+// Scale an image onto a white thumbnail-sized canvas. 'contain' shows all of
+// it centered, 'cover' fills the thumbnail from the top left.
+export function drawThumbnail(source: CanvasImageSource, width: number, height: number, fit: 'contain' | 'cover'): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas context not available');
+  }
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const scale = fit === 'contain'
+    ? Math.min(canvas.width / width, canvas.height / height)
+    : Math.max(canvas.width / width, canvas.height / height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  const x = fit === 'contain' ? (canvas.width - drawWidth) / 2 : 0;
+  const y = fit === 'contain' ? (canvas.height - drawHeight) / 2 : 0;
+  context.drawImage(source, x, y, drawWidth, drawHeight);
+
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+// Thumbnail of a rendered SVG element, e.g. from SVGRenderer or MermaidRenderer
+export async function captureSvgElement(svg: SVGSVGElement): Promise<string> {
+  const viewBox = svg.viewBox?.baseVal;
+  const box = svg.getBoundingClientRect();
+  const width = viewBox?.width || box.width || CAPTURE_WIDTH;
+  const height = viewBox?.height || box.height || CAPTURE_HEIGHT;
+
+  // Drawn as an image, the SVG needs explicit dimensions instead of percentages
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.style.maxWidth = '';
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+  return drawThumbnail(image, width, height, 'contain');
+}
+
+// Thumbnail of a rendered HTML element, laid out at the capture size
+export async function captureElement(element: HTMLElement): Promise<string> {
+  const canvas = await toCanvas(element, {
+    width: CAPTURE_WIDTH,
+    height: CAPTURE_HEIGHT,
+    backgroundColor: '#ffffff',
+    pixelRatio: 1,
+    // Web fonts would be fetched again for every capture
+    skipFonts: true,
+  });
+  return drawThumbnail(canvas, CAPTURE_WIDTH, CAPTURE_HEIGHT, 'cover');
+}
+
+// Thumbnail of a standalone HTML page. The page is drawn as an SVG image,
+// which never runs its scripts or loads external resources, so it shows the
+// page's static markup and inline styles.
+export async function captureHtmlDocument(code: string): Promise<string> {
+  const page = new DOMParser().parseFromString(code, 'text/html');
+  page.querySelectorAll('script, iframe, object, embed').forEach(element => element.remove());
+
+  const styles = Array.from(page.querySelectorAll('style'))
+    .map(style => new XMLSerializer().serializeToString(style))
+    .join('');
+  const body = Array.from(page.body.childNodes)
+    .map(node => new XMLSerializer().serializeToString(node))
+    .join('');
+
+  const markup = `<svg xmlns="http://www.w3.org/2000/svg" width="${CAPTURE_WIDTH}" height="${CAPTURE_HEIGHT}">` +
+    `<foreignObject width="100%" height="100%">` +
+    `<div xmlns="http://www.w3.org/1999/xhtml" style="width:${CAPTURE_WIDTH}px;min-height:${CAPTURE_HEIGHT}px;background:#fff">${styles}${body}</div>` +
+    `</foreignObject></svg>`;
+
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+  return drawThumbnail(image, CAPTURE_WIDTH, CAPTURE_HEIGHT, 'cover');
+}
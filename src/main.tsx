@@ -7,6 +7,10 @@ import { ArtifactEditor } from './components/ArtifactEditor';
 import { ArtifactRunner } from './components/ArtifactRunner';
 import { ErrorPage } from './components/ErrorPage';
 import { AboutPage } from './components/AboutPage';
+import { TrashView } from './components/TrashView';
+import { SharedArtifactView } from './components/SharedArtifactView';
+import { ClaudeImportView } from './components/ClaudeImportView';
+import { UndoManager } from './components/UndoManager';
 
 // Define routes
 const routes = [
@@ -34,6 +38,22 @@ const routes = [
     path: '/about',
     element: <AboutPage />,
     errorElement: <ErrorPage />
+  },
+  {
+    path: '/trash',
+    element: <TrashView />,
+    errorElement: <ErrorPage />
+  },
+  {
+    path: '/import/claude',
+    element: <ClaudeImportView />,
+    errorElement: <ErrorPage />
+  },
+  {
+    // The artifact itself is in the URL fragment: /share/#<payload>
+    path: '/share',
+    element: <SharedArtifactView />,
+    errorElement: <ErrorPage />
   }
 ];
 
@@ -60,5 +80,6 @@ const router = isDevelopment
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <RouterProvider router={router} />
+    <UndoManager />
   </React.StrictMode>,
 );
\ No newline at end of file
@@ -0,0 +1,197 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import './index.css';
+import { executeComponentCode, mapArtifactStack } from './lib/executeArtifact';
+import {
+  isHostMessage,
+  type ConsoleEntry,
+  type ConsoleLevel,
+  type SandboxEvent,
+  type SandboxMessage
+} from './lib/sandboxProtocol';
+import { ArtifactErrorBoundary } from './components/renderers/ArtifactErrorBoundary';
+import { captureElement } from './lib/thumbnails';
+
+// Entry point of the sandboxed iframe that runs React artifacts.
+// It is loaded with `sandbox="allow-scripts"` (no allow-same-origin), so the
+// artifact runs in an opaque origin with no access to the gallery's window,
+// localStorage or router. All communication goes through postMessage.
+
+const root = ReactDOM.createRoot(document.getElementById('root')!);
+
+const post = (event: SandboxEvent) => {
+  const message: SandboxMessage = { ...event, source: 'artifact-sandbox' };
+  window.parent.postMessage(message, '*');
+};
+
+const errorMessage = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  return String(err) || 'Unknown error';
+};
+
+// The same error can reach both the error boundary and the window error event
+const reportedErrors = new WeakSet<object>();
+
+const reportRuntimeError = (err: unknown, componentStack?: string) => {
+  if (typeof err === 'object' && err !== null) {
+    if (reportedErrors.has(err)) return;
+    reportedErrors.add(err);
+  }
+
+  let mapped = err instanceof Error && err.stack ? mapArtifactStack(err.stack) : { stack: undefined, line: undefined };
+  // Errors thrown by React itself may only locate the artifact through the component stack
+  if (mapped.line === undefined && componentStack) {
+    const mappedComponents = mapArtifactStack(componentStack);
+    if (mappedComponents.line !== undefined) {
+      mapped = { stack: `${mapped.stack ?? errorMessage(err)}\n${mappedComponents.stack.trim()}`, line: mappedComponents.line };
+    }
+  }
+
+  post({ type: 'error', phase: 'runtime', message: errorMessage(err), stack: mapped.stack, line: mapped.line });
+};
+
+// The artifact currently shown; remounted with a new key on reset
+let currentElement: React.ReactElement | null = null;
+let mountKey = 0;
+
+const mount = () => {
+  root.render(currentElement && (
+    <ArtifactErrorBoundary key={mountKey} onError={reportRuntimeError} onReset={reset}>
+      {currentElement}
+    </ArtifactErrorBoundary>
+  ));
+  post({ type: 'rendered' });
+};
+
+function reset() {
+  mountKey++;
+  mount();
+}
+
+window.addEventListener('message', (event) => {
+  if (event.source !== window.parent || !isHostMessage(event.data)) return;
+
+  switch (event.data.type) {
+    case 'render':
+      try {
+        currentElement = executeComponentCode(event.data.code);
+        mount();
+      } catch (err) {
+        console.error('Component execution error:', err);
+        currentElement = null;
+        root.render(null);
+        post({ type: 'error', phase: 'compile', message: errorMessage(err) });
+      }
+      break;
+    case 'reset':
+      reset();
+      break;
+    case 'capture':
+      captureElement(document.body)
+        .then(dataUrl => post({ type: 'captured', dataUrl }))
+        .catch(err => {
+          console.warn('Could not capture the artifact:', err);
+          post({ type: 'captured', dataUrl: null });
+        });
+      break;
+  }
+});
+
+// Report errors thrown outside of rendering (effects, handlers, timers)
+window.addEventListener('error', (event) => {
+  reportRuntimeError(event.error ?? event.message);
+});
+
+window.addEventListener('unhandledrejection', (event) => {
+  reportRuntimeError(event.reason);
+});
+
+// Console capture
+
+const MAX_MESSAGE_LENGTH = 10000;
+
+// Readable representation of a logged value; handles cycles, functions and DOM nodes
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (typeof value === 'symbol' || typeof value === 'bigint' || value === undefined) return String(value);
+  if (value instanceof Element) return `<${value.tagName.toLowerCase()}>`;
+
+  const seen = new WeakSet<object>();
+  try {
+    return JSON.stringify(value, (_key, item: unknown) => {
+      if (typeof item === 'function') return `[Function ${item.name || 'anonymous'}]`;
+      if (typeof item === 'bigint' || typeof item === 'symbol') return String(item);
+      if (item === undefined) return 'undefined';
+      if (typeof item === 'object' && item !== null) {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+      }
+      return item;
+    }, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+// Apply printf-style substitutions (%s, %d, %o, %c, ...) like the browser console does
+const formatConsoleArgs = (args: unknown[]): string => {
+  const rest = [...args];
+  let message = '';
+
+  if (typeof rest[0] === 'string' && /%[sdifoOc]/.test(rest[0])) {
+    const format = rest.shift() as string;
+    message = format.replace(/%([sdifoOc%])/g, (match, specifier: string) => {
+      if (specifier === '%') return '%';
+      if (rest.length === 0) return match;
+      const value = rest.shift();
+      switch (specifier) {
+        case 'c':
+          return '';
+        case 'd':
+        case 'i':
+          return String(parseInt(String(value), 10));
+        case 'f':
+          return String(parseFloat(String(value)));
+        default:
+          return formatValue(value);
+      }
+    });
+  }
+
+  const text = [message, ...rest.map(formatValue)].filter(part => part !== '').join(' ');
+  return text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH)}…` : text;
+};
+
+const consoleLevels: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+consoleLevels.forEach(level => {
+  const original = console[level].bind(console);
+
+  console[level] = (...args: unknown[]) => {
+    original(...args);
+
+    const entry: ConsoleEntry = { level, message: formatConsoleArgs(args), timestamp: Date.now() };
+
+    // Locate warnings and errors: the logged error's own stack, or where console was called
+    if (level === 'warn' || level === 'error') {
+      const loggedError = args.find((arg): arg is Error => arg instanceof Error);
+      const { stack, line } = mapArtifactStack(loggedError?.stack ?? new Error().stack ?? '');
+      if (line !== undefined) {
+        entry.stack = loggedError ? stack : stack.replace(/^Error\n/, '');
+        entry.line = line;
+      }
+    }
+
+    post({ type: 'console', entry });
+  };
+});
+
+// Keep the host iframe sized to the rendered content
+const resizeObserver = new ResizeObserver(() => {
+  post({ type: 'resize', height: document.documentElement.scrollHeight });
+});
+resizeObserver.observe(document.body);
+
+post({ type: 'ready' });
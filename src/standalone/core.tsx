@@ -0,0 +1,71 @@
+import * as ReactModule from 'react';
+import * as ReactDOMModule from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as ReactJSXRuntime from 'react/jsx-runtime';
+import { ArtifactErrorBoundary } from '../components/renderers/ArtifactErrorBoundary';
+import { normalizeModuleSpecifier, reactGlobals, runCompiledComponent, type ModuleExports } from '../lib/runComponent';
+import { ARTIFACT_CODE_ELEMENT_ID, type StandaloneRuntime } from '../lib/standaloneRuntime';
+
+// Core pack of a standalone export's runtime: React, the module registry, and
+// running the artifact once the page and the other packs have loaded
+
+const modules: Record<string, ModuleExports> = {};
+let globals: Record<string, unknown> = {};
+
+const registerModule: StandaloneRuntime['registerModule'] = (specifier, exports, options = {}) => {
+  modules[specifier] = exports;
+  if (options.globals) {
+    globals = { ...globals, ...exports };
+  }
+};
+
+window.ArtifactRuntime = { registerModule };
+// The other packs are built with React as an external that they read from
+// these globals (see plugins/standaloneRuntime.ts)
+Object.assign(window, { React: ReactModule, ReactDOM: ReactDOMModule, ReactJSXRuntime });
+
+registerModule('react', ReactModule);
+registerModule('react-dom', ReactDOMModule);
+registerModule('react-dom/client', ReactDOMClient);
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+document.addEventListener('DOMContentLoaded', () => {
+  const root = ReactDOMClient.createRoot(document.getElementById('root')!);
+
+  let element: ReactModule.ReactElement;
+  try {
+    const code = JSON.parse(document.getElementById(ARTIFACT_CODE_ELEMENT_ID)!.textContent!) as string;
+    element = runCompiledComponent(code, specifier => modules[normalizeModuleSpecifier(specifier)], {
+      ...globals,
+      ...reactGlobals
+    });
+  } catch (err) {
+    console.error('Component execution error:', err);
+    root.render(
+      <div className="m-4 bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm">
+        <p className="font-semibold mb-1">The artifact could not be started</p>
+        <p className="font-mono whitespace-pre-wrap">{errorMessage(err)}</p>
+      </div>
+    );
+    return;
+  }
+
+  // Remounted with a new key on reset, like in the gallery's sandbox
+  let mountKey = 0;
+  const mount = () => {
+    root.render(
+      <ArtifactErrorBoundary
+        key={mountKey}
+        onError={(err) => console.error('The artifact crashed while rendering:', err)}
+        onReset={() => {
+          mountKey++;
+          mount();
+        }}
+      >
+        {element}
+      </ArtifactErrorBoundary>
+    );
+  };
+  mount();
+});
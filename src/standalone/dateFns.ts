@@ -0,0 +1,4 @@
+import * as DateFns from 'date-fns';
+import { registerRuntimeModule } from '../lib/standaloneRuntime';
+
+registerRuntimeModule('date-fns', DateFns);
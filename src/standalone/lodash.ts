@@ -0,0 +1,4 @@
+import lodash from 'lodash';
+import { registerRuntimeModule } from '../lib/standaloneRuntime';
+
+registerRuntimeModule('lodash', { ...lodash, default: lodash });
@@ -0,0 +1,5 @@
+import * as LucideIcons from 'lucide-react';
+import { registerRuntimeModule } from '../lib/standaloneRuntime';
+
+// Like in the gallery, artifacts can use the icons without importing them
+registerRuntimeModule('lucide-react', LucideIcons, { globals: true });
@@ -0,0 +1,5 @@
+import * as Recharts from 'recharts';
+import { registerRuntimeModule } from '../lib/standaloneRuntime';
+
+// Like in the gallery, artifacts can use the charts without importing them
+registerRuntimeModule('recharts', Recharts, { globals: true });
@@ -0,0 +1,14 @@
+import { registerRuntimeModule } from '../lib/standaloneRuntime';
+import type { ModuleExports } from '../lib/runComponent';
+import * as utils from '../lib/utils';
+
+// The shadcn components, under the same specifiers as in the gallery (see
+// src/lib/artifactModules.ts)
+const uiModules = import.meta.glob<ModuleExports>('../components/ui/*.{ts,tsx}', { eager: true });
+
+Object.entries(uiModules).forEach(([path, exports]) => {
+  const name = path.replace(/^.*\/ui\//, '').replace(/\.tsx?$/, '');
+  registerRuntimeModule(`@/components/ui/${name}`, exports);
+});
+
+registerRuntimeModule('@/lib/utils', utils);
@@ -0,0 +1,4 @@
+import * as Zod from 'zod';
+import { registerRuntimeModule } from '../lib/standaloneRuntime';
+
+registerRuntimeModule('zod', Zod);
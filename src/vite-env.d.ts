@@ -1,2 +1,7 @@
 /// <reference types="vite/client" />
-/// <reference types="vite-plugin-pages/client-react" />
\ No newline at end of file
+/// <reference types="vite-plugin-pages/client-react" />
+
+interface ImportMetaEnv {
+  // Artifacts directory synced through the dev-server file API, see plugins/artifactFileApi.ts
+  readonly VITE_ARTIFACTS_DIR?: string
+}
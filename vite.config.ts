@@ -1,22 +1,41 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import { artifactFileApi } from './plugins/artifactFileApi'
+import { standaloneRuntime } from './plugins/standaloneRuntime'
+import { sandboxPage } from './plugins/sandboxPage'
 
 // https://vitejs.dev/config/
-export default defineConfig(({ command }) => {
+export default defineConfig(({ command, mode }) => {
   const isProduction = command === 'build';
+  const env = loadEnv(mode, process.cwd(), '');
   
   return {
     // Use base path only in production (GitHub Pages)
     base: isProduction ? '/artifactsgallery/' : '/',
     plugins: [
       react(),
+      // Set ARTIFACTS_DIR (e.g. in .env.local) to sync artifacts with files on disk
+      artifactFileApi({ directory: env.ARTIFACTS_DIR }),
+      // Runtime scripts inlined into standalone HTML exports
+      standaloneRuntime(),
+      // The artifact sandbox page, bundled so that it needs no cross-origin requests
+      sandboxPage(),
     ],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, './src'),
         'src': path.resolve(__dirname, './src'),
       },
-    }
+    },
+    build: {
+      rollupOptions: {
+        // The artifact sandbox is a separate page loaded into an iframe
+        input: {
+          main: path.resolve(__dirname, 'index.html'),
+          sandbox: path.resolve(__dirname, 'sandbox.html'),
+        },
+      },
+    },
   }
 })
\ No newline at end of file